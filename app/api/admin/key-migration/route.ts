@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthenticated } from '@/lib/auth'
+import { DEFAULT_FLAT_PROPERTY_ID, migrateKeys } from '@/lib/keyMigration'
+import { isAssetStorageName } from '@/lib/storage'
+
+// Each request works for this long and reports whether anything is left;
+// POST again to resume where it stopped
+const TIME_BUDGET = 8000
+
+// POST /api/admin/key-migration
+//   { store, prefix?, flatPropertyId?, dryRun?, keepOriginals? }
+// Moves photos to parties/{year}/{property}/{timestamp}_{status} keys and records redirects.
+// dryRun lists the planned moves without writing anything; keepOriginals copies instead.
+export async function POST(request: NextRequest) {
+  if (!(await isAuthenticated(request))) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  let body: Record<string, any>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const storeName = typeof body.store === 'string' ? body.store : ''
+  if (!isAssetStorageName(storeName)) {
+    return NextResponse.json({ error: `Unknown store: ${storeName || '(none)'}` }, { status: 400 })
+  }
+
+  try {
+    const result = await migrateKeys({
+      storeName,
+      prefix: typeof body.prefix === 'string' ? body.prefix : '',
+      flatPropertyId: typeof body.flatPropertyId === 'string' && body.flatPropertyId ? body.flatPropertyId : DEFAULT_FLAT_PROPERTY_ID,
+      dryRun: body.dryRun === true,
+      keepOriginals: body.keepOriginals === true,
+      deadline: Date.now() + TIME_BUDGET
+    })
+
+    return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    console.error('Error migrating keys:', error)
+    return NextResponse.json({ error: 'Key migration failed' }, { status: 500 })
+  }
+}
@@ -1,46 +1,96 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getStore } from '@netlify/blobs'
+import { parseAssetKey } from '@/lib/assets'
+import { ASSET_STORAGE_NAME, getStorage, InvalidBlobKeyError, StoredBlob } from '@/lib/storage'
+
+interface CursorState {
+  prefix: string
+  after: string
+}
+
+// Cursors are opaque to clients: base64url JSON holding the last key returned
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url')
+}
+
+function decodeCursor(cursor: string | null, prefix: string): CursorState | null {
+  if (!cursor) return null
+  try {
+    const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (typeof state?.after === 'string' && state.prefix === prefix) {
+      return state
+    }
+  } catch {
+    // Fall through to the invalid-cursor response
+  }
+  throw new Error('Invalid cursor')
+}
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const prefix = searchParams.get('prefix') || ''
-    const page = parseInt(searchParams.get('page') || '1')
-    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200) // Max 200 per request
-    
-    // Get store inside the function to avoid build-time initialization
-    const assetStore = getStore('images')
-    
-    // List all blobs with prefix (simple approach that works)
-    const { blobs } = await assetStore.list({ prefix })
-    
-    // Paginate the results in memory
-    const startIdx = (page - 1) * limit
-    const endIdx = startIdx + limit
-    const pageBlobs = blobs.slice(startIdx, endIdx)
-    
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200) // Max 200 per request
+
+    let cursor: CursorState | null
+    try {
+      cursor = decodeCursor(searchParams.get('cursor'), prefix)
+    } catch {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 })
+    }
+
+    const assetStore = getStorage(ASSET_STORAGE_NAME)
+
+    // Walk the listing one upstream page at a time. Keys come back in lexical order,
+    // so whole pages before the cursor are skipped without looking at their entries and
+    // we stop as soon as this page (plus one lookahead entry) is filled.
+    // Without a cursor, ?page= falls back to skipping (page - 1) * limit entries.
+    let toSkip = cursor ? 0 : (page - 1) * limit
+    const pageBlobs: StoredBlob[] = []
+    let hasMore = false
+
+    for await (const blobs of assetStore.listPages(prefix)) {
+      if (cursor && (blobs.length === 0 || blobs[blobs.length - 1].key <= cursor.after)) {
+        continue
+      }
+
+      for (const blob of blobs) {
+        if (cursor && blob.key <= cursor.after) continue
+        if (toSkip > 0) {
+          toSkip--
+          continue
+        }
+        if (pageBlobs.length === limit) {
+          hasMore = true
+          break
+        }
+        pageBlobs.push(blob)
+      }
+
+      if (hasMore) break
+    }
+
     const assets = pageBlobs.map(blob => ({
-      key: blob.key,
-      etag: blob.etag,
-      filename: blob.key.split('_').pop() || blob.key
+      ...parseAssetKey(blob.key),
+      etag: blob.etag
     }))
-    
-    // Determine if there are more items
-    const hasMore = blobs.length > endIdx
-    const nextCursor = hasMore && pageBlobs.length > 0 ? pageBlobs[pageBlobs.length - 1].key : null
 
-    return NextResponse.json({ 
+    const nextCursor = hasMore ? encodeCursor({ prefix, after: pageBlobs[pageBlobs.length - 1].key }) : null
+
+    return NextResponse.json({
       assets,
       pagination: {
         page,
         limit,
         hasMore,
-        nextCursor,
-        total: blobs.length // Total count of all matching blobs
+        nextCursor
       }
     })
   } catch (error) {
+    if (error instanceof InvalidBlobKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error listing assets:', error)
     return NextResponse.json({ error: 'Failed to list assets' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
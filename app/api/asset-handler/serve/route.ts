@@ -1,139 +1,192 @@
 // app/api/asset-handler/serve/route.ts
-import { getStore } from '@netlify/blobs'
 import { NextRequest, NextResponse } from 'next/server'
+import { buildEtag, cacheHeaders, isNotModified, lastModifiedFrom } from '@/lib/conditional'
+import { getLinkedMetadata } from '@/lib/contentIndex'
+import { ByteRange, ifRangeMatches, parseRange, peekStream, sliceStream } from '@/lib/httpRange'
+import {
+  getContentType,
+  getOrCreateVariant,
+  isBase64Encoded,
+  isImageSource,
+  parseTransformParams,
+  toImageBuffer,
+  variantKey
+} from '@/lib/imageTransform'
+import { getKeyRedirect } from '@/lib/keyRedirects'
+import { ASSET_STORAGE_NAME, getStorage, InvalidBlobKeyError, isAssetStorageName } from '@/lib/storage'
+import { VIDEO_STORE_NAME } from '@/lib/videos'
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const key = searchParams.get('key')
   const size = searchParams.get('size')
+  const storeName = searchParams.get('store') || ASSET_STORAGE_NAME
 
   if (!key) {
     console.error('❌ No key provided')
     return NextResponse.json({ error: 'Key parameter is required' }, { status: 400 })
   }
 
+  // Photos from any asset store, plus property videos
+  if (!isAssetStorageName(storeName) && storeName !== VIDEO_STORE_NAME) {
+    return NextResponse.json({ error: `Unknown store: ${storeName}` }, { status: 400 })
+  }
+
   try {
     console.log(`🔍 Fetching blob: ${key} (size: ${size})`)
-    
-    // Get the blob from Netlify Blobs
-    const store = getStore('images')
-    const blob = await store.get(key)
-    
-    if (!blob) {
+
+    // Metadata first, so conditional requests are answered without downloading the body.
+    // Linked duplicates are read from the key holding their bytes.
+    const store = getStorage(storeName)
+    const head = await getLinkedMetadata(store, key)
+
+    if (!head) {
+      // Keys moved by the key migration answer with a permanent redirect to their new key
+      const redirect = await getKeyRedirect(storeName, key)
+      if (redirect) {
+        return redirectToKey(request, redirect.to)
+      }
       console.error(`❌ Blob not found: ${key}`)
-      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
     }
 
-    console.log(`✅ Blob found: ${key}`)
+    // Only images are transformed; anything else is served as stored, whatever the Accept header says
+    const transform = isImageSource(head.key, head.metadata.contentType)
+      ? parseTransformParams(searchParams, request.headers.get('accept'))
+      : null
+    const etag = buildEtag(head.etag || key, transform ? variantKey(key, transform) : undefined)
+    const lastModified = lastModifiedFrom(head.metadata)
+
+    if (isNotModified(request.headers, etag, lastModified)) {
+      return new NextResponse(null, {
+        status: 304,
+        headers: cacheHeaders(key, etag, lastModified)
+      })
+    }
 
-    // Convert blob to buffer for processing
-    let buffer: Buffer
-    
-    // Handle different blob types
-    try {
-      // Cast to any to handle various blob types
-      const blobData = blob as any
-      
-      if (blobData instanceof ArrayBuffer) {
-        buffer = Buffer.from(blobData)
-      } else if (blobData instanceof Uint8Array) {
-        buffer = Buffer.from(blobData)
-      } else if (blobData && typeof blobData.arrayBuffer === 'function') {
-        // For ReadableStream or Blob types
-        const arrayBuffer = await blobData.arrayBuffer()
-        buffer = Buffer.from(arrayBuffer)
-      } else if (Buffer.isBuffer(blobData)) {
-        buffer = blobData
-      } else {
-        // Last resort: try to convert directly
-        buffer = Buffer.from(blobData)
+    // Resizing/transcoding needs the whole image in memory; variants are small enough to buffer
+    if (transform) {
+      // Resize and/or transcode to AVIF/WebP, reusing a cached variant when one exists
+      const variant = await getOrCreateVariant(storeName, head.key, transform, head.etag, async () => {
+        const data = await store.get(head.key, { type: 'arrayBuffer' })
+        if (!data) throw new Error(`Blob disappeared while serving: ${key}`)
+        return toImageBuffer(data)
+      })
+      if (variant.transformed) {
+        console.log(`📸 Serving ${size || 'custom'} variant for: ${key} (${variant.cached ? 'cached' : 'rendered'})`)
       }
-    } catch (conversionError) {
-      console.error('Failed to convert blob to buffer:', conversionError)
-      throw new Error('Failed to process image data')
+
+      return sendBuffer(request, variant.buffer, { key, contentType: variant.contentType, etag, lastModified })
     }
 
-    console.log(`📊 Buffer size: ${buffer.length} bytes`)
+    // Videos added outside the uploader have no size in their metadata; the storage layer
+    // works it out. Without one, ranges can't be resolved and the full body is sent
+    // (which RFC 9110 permits).
+    const totalSize = head.size ?? (await store.getSize(head.key))
+
+    // Originals (including videos) are streamed straight from the blob rather than buffered
+    const data = await store.get(head.key, { type: 'stream' })
 
-    // Determine content type
-    const contentType = getContentType(key, buffer)
-    
-    // For thumbnail requests, we'll serve the original for now
-    // You can implement resizing later using sharp or similar
-    if (size === 'thumb') {
-      console.log(`📸 Serving thumbnail for: ${key}`)
+    if (!data) {
+      console.error(`❌ Blob not found: ${key}`)
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
     }
 
-    // Create response with proper headers
-    // Convert Buffer to Uint8Array for NextResponse
-    const uint8Array = new Uint8Array(buffer)
-    
-    const isDev = process.env.NODE_ENV !== 'production'
-    const headersOut: HeadersInit = {
-      'Content-Type': contentType,
-      'Content-Length': buffer.length.toString(),
-      ...(isDev
-        ? { 'Cache-Control': 'no-store' }
-        : {
-            'Cache-Control': 'public, max-age=31536000, immutable',
-            'Netlify-CDN-Cache-Control': 'public, s-maxage=31536000, immutable',
-          }),
-      'Netlify-Cache-Tag': key,
-      'X-Content-Type-Options': 'nosniff',
-      'ETag': `"${key}"`,
+    console.log(`✅ Blob found: ${key}`)
+
+    const { head: firstChunk, stream } = await peekStream(data as ReadableStream<Uint8Array>)
+
+    // Base64 uploads are decoded like in the variant path, which means buffering them
+    if (isImageSource(head.key, head.metadata.contentType) && isBase64Encoded(firstChunk)) {
+      const buffer = toImageBuffer(await new Response(stream).arrayBuffer())
+      return sendBuffer(request, buffer, { key, contentType: getContentType(key, buffer), etag, lastModified })
     }
-    
-    const response = new NextResponse(uint8Array, {
-      status: 200,
-      headers: headersOut,
-    })
 
-    return response
+    const contentType = (head.metadata.contentType as string) || getContentType(key, Buffer.from(firstChunk))
+
+    const range = totalSize !== null ? resolveRange(request, etag, totalSize) : null
+
+    if (range === 'unsatisfiable') {
+      await stream.cancel()
+      return rangeNotSatisfiable(totalSize as number)
+    }
+
+    return new NextResponse(range ? sliceStream(stream, range) : stream, {
+      status: range ? 206 : 200,
+      headers: buildHeaders({ key, contentType, etag, lastModified, size: totalSize, range })
+    })
 
   } catch (error) {
+    if (error instanceof InvalidBlobKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error(`❌ Error serving ${key}:`, error)
-    return NextResponse.json({ 
-      error: 'Internal server error', 
+    return NextResponse.json({
+      error: 'Internal server error',
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
 }
 
-function getContentType(key: string, buffer: Buffer): string {
-  const ext = key.toLowerCase().split('.').pop()
-  
-  // Check file signature for more reliable detection
-  if (buffer.length >= 2) {
-    const signature = buffer.subarray(0, 4)
-    
-    // JPEG
-    if (signature[0] === 0xFF && signature[1] === 0xD8) {
-      return 'image/jpeg'
-    }
-    
-    // PNG
-    if (signature[0] === 0x89 && signature[1] === 0x50 && signature[2] === 0x4E && signature[3] === 0x47) {
-      return 'image/png'
-    }
-    
-    // WebP
-    if (signature.toString().includes('WEBP')) {
-      return 'image/webp'
-    }
+// A body already in memory, with Range applied
+function sendBuffer(request: NextRequest, buffer: Buffer, { key, contentType, etag, lastModified }: {
+  key: string
+  contentType: string
+  etag: string
+  lastModified: Date | null
+}) {
+  const range = resolveRange(request, etag, buffer.length)
+  if (range === 'unsatisfiable') {
+    return rangeNotSatisfiable(buffer.length)
+  }
+
+  const body = range ? buffer.subarray(range.start, range.end + 1) : buffer
+  return new NextResponse(new Uint8Array(body), {
+    status: range ? 206 : 200,
+    headers: buildHeaders({ key, contentType, etag, lastModified, size: buffer.length, range })
+  })
+}
+
+// Honor Range only while If-Range (when sent) still matches the current representation
+function resolveRange(request: NextRequest, etag: string, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!ifRangeMatches(request.headers.get('if-range'), etag)) {
+    return null
   }
-  
-  // Fallback to extension-based detection
-  switch (ext) {
-    case 'jpg':
-    case 'jpeg':
-      return 'image/jpeg'
-    case 'png':
-      return 'image/png'
-    case 'webp':
-      return 'image/webp'
-    case 'gif':
-      return 'image/gif'
-    default:
-      return 'application/octet-stream'
+  return parseRange(request.headers.get('range'), size)
+}
+
+function redirectToKey(request: NextRequest, key: string) {
+  const url = new URL(request.url)
+  url.searchParams.set('key', key)
+  return NextResponse.redirect(url, 301)
+}
+
+function rangeNotSatisfiable(size: number) {
+  return new NextResponse(null, {
+    status: 416,
+    headers: {
+      'Content-Range': `bytes */${size}`,
+      'Accept-Ranges': 'bytes'
+    }
+  })
+}
+
+function buildHeaders({ key, contentType, etag, lastModified, size, range }: {
+  key: string
+  contentType: string
+  etag: string
+  lastModified: Date | null
+  size: number | null
+  range: ByteRange | null
+}): HeadersInit {
+  const contentLength = range ? range.end - range.start + 1 : size
+
+  return {
+    'Content-Type': contentType,
+    ...(contentLength !== null ? { 'Content-Length': contentLength.toString() } : {}),
+    ...(range ? { 'Content-Range': `bytes ${range.start}-${range.end}/${size}` } : {}),
+    ...(size !== null ? { 'Accept-Ranges': 'bytes' } : {}),
+    'X-Content-Type-Options': 'nosniff',
+    ...cacheHeaders(key, etag, lastModified),
   }
-}
\ No newline at end of file
+}
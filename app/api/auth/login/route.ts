@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkPassword, createSessionToken, isAuthConfigured, SESSION_COOKIE, SESSION_TTL_SECONDS } from '@/lib/auth'
+
+// POST /api/auth/login  { password }  sets the session cookie used by upload pages and APIs
+export async function POST(request: NextRequest) {
+  if (!isAuthConfigured()) {
+    return NextResponse.json({ error: 'Uploads are not enabled on this site' }, { status: 403 })
+  }
+
+  let password: unknown
+  try {
+    ({ password } = await request.json())
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (typeof password !== 'string' || !(await checkPassword(password))) {
+    return NextResponse.json({ error: 'Incorrect password' }, { status: 401 })
+  }
+
+  const response = NextResponse.json({ success: true })
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS
+  })
+  return response
+}
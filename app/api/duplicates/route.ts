@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthenticated } from '@/lib/auth'
+import { findDuplicateGroups } from '@/lib/contentIndex'
+import { ASSET_STORAGE_NAME, getStorage, isAssetStorageName } from '@/lib/storage'
+
+// GET /api/duplicates?prefix=[&store=][&hashMissing=1]
+// Groups of blobs under the prefix with identical bytes, largest waste first.
+// hashMissing=1 downloads and hashes blobs uploaded before content hashes were recorded.
+export async function GET(request: NextRequest) {
+  if (!(await isAuthenticated(request))) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const prefix = searchParams.get('prefix')
+  const storeName = searchParams.get('store') || ASSET_STORAGE_NAME
+  const hashMissing = searchParams.get('hashMissing') === '1'
+
+  if (!prefix) {
+    return NextResponse.json({ error: 'Missing prefix parameter' }, { status: 400 })
+  }
+
+  if (!isAssetStorageName(storeName)) {
+    return NextResponse.json({ error: `Unknown store: ${storeName}` }, { status: 400 })
+  }
+
+  try {
+    const report = await findDuplicateGroups(getStorage(storeName), prefix, { hashMissing })
+    return NextResponse.json({ store: storeName, ...report }, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+  } catch (error) {
+    console.error(`Error finding duplicates under ${prefix}:`, error)
+    return NextResponse.json({ error: 'Failed to find duplicates' }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { clusterBursts, DEFAULT_BURST_OPTIONS } from '@/lib/bursts'
+import { mapWithConcurrency } from '@/lib/concurrency'
+import { loadEventManifest, ManifestEntry, mergeManifestEntries } from '@/lib/eventManifest'
+import { getPerceptualHash } from '@/lib/perceptualHash'
+import { ASSET_STORAGE_NAME, isAssetStorageName } from '@/lib/storage'
+
+// Photos uploaded before perceptual hashes were recorded are hashed here, within this
+// budget; the rest are reported as pending and picked up by the next request
+const HASH_TIME_BUDGET = 8000
+const HASH_CONCURRENCY = 4
+
+// GET /api/events/{propertyId}/{year}/bursts[?store=][&maxDistance=][&maxGap=]
+// Near-identical frames grouped into bursts, best-rated frame first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ propertyId: string; year: string }> }
+) {
+  const { searchParams } = new URL(request.url)
+  const storeName = searchParams.get('store') || ASSET_STORAGE_NAME
+  const maxDistance = parseInt(searchParams.get('maxDistance') || '', 10)
+  const maxGap = parseInt(searchParams.get('maxGap') || '', 10)
+
+  if (!isAssetStorageName(storeName)) {
+    return NextResponse.json({ error: `Unknown store: ${storeName}` }, { status: 400 })
+  }
+
+  try {
+    const { propertyId, year } = await params
+    const manifest = await loadEventManifest(propertyId, year, storeName)
+
+    const deadline = Date.now() + HASH_TIME_BUDGET
+    const computed = new Map<string, Partial<ManifestEntry>>()
+    let pending = 0
+
+    const frames = await mapWithConcurrency(manifest.assets, HASH_CONCURRENCY, async entry => {
+      let hash = entry.perceptualHash || null
+      if (!hash && Date.now() < deadline) {
+        try {
+          hash = await getPerceptualHash(storeName, entry.key)
+          if (hash) computed.set(entry.key, { perceptualHash: hash, etag: entry.etag })
+        } catch (error) {
+          console.warn(`Failed to hash ${entry.key}:`, error)
+        }
+      } else if (!hash) {
+        pending++
+      }
+      return {
+        key: entry.key,
+        captureTime: entry.captureTime,
+        perceptualHash: hash,
+        rating: entry.rating,
+        topPick: entry.topPick
+      }
+    })
+
+    // Keep the hashes so later requests read them from the manifest
+    await mergeManifestEntries(propertyId, year, computed, storeName)
+
+    const bursts = clusterBursts(frames, {
+      maxDistance: maxDistance >= 0 && maxDistance <= 64 ? maxDistance : DEFAULT_BURST_OPTIONS.maxDistance,
+      maxGapSeconds: maxGap >= 0 ? maxGap : DEFAULT_BURST_OPTIONS.maxGapSeconds
+    })
+
+    return NextResponse.json({
+      propertyId,
+      year,
+      total: frames.length,
+      pending,
+      bursts
+    }, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+  } catch (error) {
+    console.error('Error finding bursts:', error)
+    return NextResponse.json({ error: 'Failed to find bursts' }, { status: 500 })
+  }
+}
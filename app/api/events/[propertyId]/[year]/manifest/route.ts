@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { rebuildEventManifest } from '@/lib/eventManifest'
+
+// Rebuild an event's manifest from scratch, e.g. after blobs were written outside the app
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ propertyId: string; year: string }> }
+) {
+  try {
+    const { propertyId, year } = await params
+
+    if (!propertyId || !year) {
+      return NextResponse.json(
+        { error: 'Property ID and year are required' },
+        { status: 400 }
+      )
+    }
+
+    const manifest = await rebuildEventManifest(propertyId, year)
+
+    return NextResponse.json({
+      success: true,
+      total: manifest.assets.length,
+      generatedAt: manifest.generatedAt
+    })
+
+  } catch (error) {
+    console.error('Error rebuilding event manifest:', error)
+    return NextResponse.json(
+      { error: 'Failed to rebuild event manifest' },
+      { status: 500 }
+    )
+  }
+}
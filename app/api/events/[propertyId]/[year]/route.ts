@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getStore } from '@netlify/blobs'
+import { parseAssetKey } from '@/lib/assets'
+import { loadEventManifest } from '@/lib/eventManifest'
 
 export async function GET(
   request: NextRequest,
@@ -15,41 +16,31 @@ export async function GET(
       )
     }
     
-    // Get Netlify Blobs store
-    const assetStore = getStore('property-assets')
-    
-    // List all blobs with prefix for this property and year
-    const prefix = `parties/${year}/${propertyId}/`
-    const { blobs } = await assetStore.list({ prefix })
-    
-    // Process blob data to create asset list
-    const assets = await Promise.all(
-      blobs.map(async (blob) => {
-        const metadata = await assetStore.getMetadata(blob.key)
-        const filename = blob.key.split('/').pop() || blob.key
-        
-        // Determine if it's a top pick based on path or metadata
-        const isTopPick = blob.key.includes('/top/') || (metadata as any)?.topPick === true
-        
-        return {
-          id: blob.key,
-          key: blob.key,
-          filename,
-          url: `/api/photos/image?key=${encodeURIComponent(blob.key)}`,
-          thumbnailUrl: `/api/photos/image?key=${encodeURIComponent(blob.key)}&w=400`,
-          downloadUrl: `/api/photos/image?key=${encodeURIComponent(blob.key)}`,
-          metadata: {
-            ...(metadata as any),
-            topPick: isTopPick,
-            rating: (metadata as any)?.rating || 0,
-            tags: (metadata as any)?.tags || [],
-            captureTime: (metadata as any)?.captureTime || null,
-            width: (metadata as any)?.width,
-            height: (metadata as any)?.height
-          }
+    // One manifest read instead of a getMetadata call per photo
+    const manifest = await loadEventManifest(propertyId, year)
+
+    const assets = manifest.assets.map(entry => {
+      const asset = parseAssetKey(entry.key)
+
+      return {
+        id: entry.key,
+        key: entry.key,
+        filename: asset.name,
+        status: asset.status,
+        url: `/api/photos/image?key=${encodeURIComponent(entry.key)}`,
+        thumbnailUrl: `/api/photos/image?key=${encodeURIComponent(entry.key)}&w=400`,
+        downloadUrl: `/api/photos/image?key=${encodeURIComponent(entry.key)}`,
+        metadata: {
+          topPick: entry.topPick,
+          rating: entry.rating,
+          ratingCount: entry.ratingCount,
+          tags: entry.tags,
+          captureTime: entry.captureTime,
+          width: entry.width,
+          height: entry.height
         }
-      })
-    )
+      }
+    })
     
     // Separate top picks and all photos
     const topPicks = assets.filter(a => a.metadata.topPick)
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exportArchiveStream, exportJobSize, getExportJob } from '@/lib/exportJobs'
+
+// The finished archive of a background export
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const job = await getExportJob(id)
+
+    if (!job) {
+      return NextResponse.json({ error: 'Export job not found' }, { status: 404 })
+    }
+
+    if (job.status !== 'complete') {
+      return NextResponse.json({ error: `Export is ${job.status}` }, { status: 409 })
+    }
+
+    return new NextResponse(exportArchiveStream(job), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': exportJobSize(job).toString(),
+        'Content-Disposition': `attachment; filename="${job.filename}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error downloading export:', error)
+    return NextResponse.json({ error: 'Failed to download export' }, { status: 500 })
+  }
+}
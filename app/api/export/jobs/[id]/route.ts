@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exportJobProgress, getExportJob } from '@/lib/exportJobs'
+
+// Progress of a background export, with a download URL once it completes
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const job = await getExportJob(id)
+
+    if (!job) {
+      return NextResponse.json({ error: 'Export job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(exportJobProgress(job), {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+  } catch (error) {
+    console.error('Error fetching export job:', error)
+    return NextResponse.json({ error: 'Failed to fetch export job' }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthenticated } from '@/lib/auth'
+import { ExportSelection } from '@/lib/exportArchive'
+import {
+  createExportJob,
+  deleteExpiredExportJobs,
+  exportJobProgress,
+  failExportJob,
+  triggerExportJob
+} from '@/lib/exportJobs'
+import { ASSET_STORAGE_NAME, isAssetStorageName } from '@/lib/storage'
+
+// POST /api/export/jobs  { keys: [...] } or { year, propertyId?, top? }, plus store? and filename?
+// Queues a background export; poll /api/export/jobs/{id} for progress and the download link.
+// Whole-year exports need a signed-in user. Archives are deleted a day after they finish.
+export async function POST(request: NextRequest) {
+  let body: Record<string, any>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const storeName = body.store || ASSET_STORAGE_NAME
+  if (!isAssetStorageName(storeName)) {
+    return NextResponse.json({ error: `Unknown store: ${storeName}` }, { status: 400 })
+  }
+
+  let selection: ExportSelection
+  if (body.keys !== undefined) {
+    const keys = body.keys
+    if (!Array.isArray(keys) || keys.length === 0 || !keys.every(key => typeof key === 'string')) {
+      return NextResponse.json({ error: 'keys must be a non-empty array of strings' }, { status: 400 })
+    }
+    selection = { storeName, keys }
+  } else if (typeof body.year === 'string' && /^\d{4}$/.test(body.year)) {
+    if (!(await isAuthenticated(request))) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+    selection = {
+      storeName,
+      year: body.year,
+      propertyId: typeof body.propertyId === 'string' ? body.propertyId : undefined,
+      topOnly: body.top === true
+    }
+  } else {
+    return NextResponse.json({ error: 'Either keys or a year is required' }, { status: 400 })
+  }
+
+  try {
+    // Creating jobs is what fills the store, so it's also where old ones are cleared out
+    await deleteExpiredExportJobs()
+    const job = await createExportJob(selection, typeof body.filename === 'string' ? body.filename : undefined)
+
+    try {
+      await triggerExportJob(request.nextUrl.origin, job.id)
+    } catch (error) {
+      console.error(`Failed to start export job ${job.id}:`, error)
+      await failExportJob(job, 'Failed to start export')
+      return NextResponse.json({ error: 'Failed to start export' }, { status: 502 })
+    }
+
+    return NextResponse.json(exportJobProgress(job), { status: 202 })
+  } catch (error) {
+    console.error('Error creating export job:', error)
+    return NextResponse.json({ error: 'Failed to create export job' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { archiveName, exportEntries, ExportSelection, resolveExportItems } from '@/lib/exportArchive'
+import { ASSET_STORAGE_NAME, isAssetStorageName } from '@/lib/storage'
+import { createZipStream } from '@/lib/zipStream'
+
+// GET /api/export/zip?propertyId=&year=[&top=1]        whole event (or its top picks)
+// POST /api/export/zip  { keys: [...], store?, filename? } explicit photos; also accepts a
+// form post with keys as a JSON string so browsers can download the stream natively
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const propertyId = searchParams.get('propertyId')
+  const year = searchParams.get('year')
+
+  if (!propertyId || !year) {
+    return NextResponse.json({ error: 'Property ID and year are required' }, { status: 400 })
+  }
+
+  return exportZip({
+    storeName: searchParams.get('store') || ASSET_STORAGE_NAME,
+    propertyId,
+    year,
+    topOnly: searchParams.get('top') === '1' || searchParams.get('top') === 'true'
+  })
+}
+
+export async function POST(request: NextRequest) {
+  let body: Record<string, any>
+  try {
+    const contentType = request.headers.get('content-type') || ''
+    if (contentType.includes('application/json')) {
+      body = await request.json()
+    } else {
+      const form = await request.formData()
+      body = Object.fromEntries(form.entries())
+      if (typeof body.keys === 'string') {
+        body.keys = JSON.parse(body.keys)
+      }
+    }
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const keys = body.keys
+  if (!Array.isArray(keys) || keys.length === 0 || !keys.every(key => typeof key === 'string')) {
+    return NextResponse.json({ error: 'keys must be a non-empty array of strings' }, { status: 400 })
+  }
+
+  return exportZip(
+    { storeName: body.store || ASSET_STORAGE_NAME, keys },
+    typeof body.filename === 'string' ? body.filename : undefined
+  )
+}
+
+async function exportZip(selection: ExportSelection, filename?: string) {
+  if (!isAssetStorageName(selection.storeName)) {
+    return NextResponse.json({ error: `Unknown store: ${selection.storeName}` }, { status: 400 })
+  }
+
+  try {
+    const items = await resolveExportItems(selection)
+
+    if (items.length === 0) {
+      return NextResponse.json({ error: 'No photos to export' }, { status: 404 })
+    }
+
+    const name = (filename || archiveName(selection)).replace(/[^\w.-]+/g, '_')
+    const stream = createZipStream(exportEntries(selection.storeName, items))
+
+    return new NextResponse(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${name}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting zip:', error)
+    return NextResponse.json({ error: 'Failed to export photos' }, { status: 500 })
+  }
+}
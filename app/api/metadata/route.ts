@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildEtag, isNotModified } from '@/lib/conditional'
+import { getLinkedMetadata } from '@/lib/contentIndex'
+import { extractPhotoMetadata, readImageHeader } from '@/lib/exif'
+import { ASSET_STORAGE_NAME, getStorage, isAssetStorageName } from '@/lib/storage'
+
+// GET /api/metadata?key=[&store=]  camera, lens and exposure details from the photo's EXIF
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const key = searchParams.get('key')
+  const storeName = searchParams.get('store') || ASSET_STORAGE_NAME
+
+  if (!key) {
+    return NextResponse.json({ error: 'Missing key parameter' }, { status: 400 })
+  }
+
+  if (!isAssetStorageName(storeName)) {
+    return NextResponse.json({ error: `Unknown store: ${storeName}` }, { status: 400 })
+  }
+
+  try {
+    const store = getStorage(storeName)
+    const head = await getLinkedMetadata(store, key)
+
+    if (!head) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    // EXIF only changes when the blob itself is replaced
+    const etag = buildEtag(head.etag || key, 'exif')
+    const headers = {
+      'Cache-Control': 'public, max-age=3600, must-revalidate',
+      ETag: etag
+    }
+
+    if (isNotModified(request.headers, etag, null)) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    const data = await store.get(head.key, { type: 'stream' })
+    if (!data) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    const header = await readImageHeader(data as ReadableStream<Uint8Array>)
+
+    return NextResponse.json({ key, metadata: extractPhotoMetadata(header) }, { headers })
+  } catch (error) {
+    console.error(`Error reading metadata for ${key}:`, error)
+    return NextResponse.json({ error: 'Failed to read metadata' }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildEtag, cacheHeaders, isNotModified, lastModifiedFrom } from '@/lib/conditional'
+import { getLinkedMetadata } from '@/lib/contentIndex'
+import {
+  getContentType,
+  getOrCreateVariant,
+  parseTransformParams,
+  toImageBuffer,
+  variantKey
+} from '@/lib/imageTransform'
+import { getKeyRedirect } from '@/lib/keyRedirects'
+import { ASSET_STORAGE_NAME, getStorage, InvalidBlobKeyError } from '@/lib/storage'
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const key = searchParams.get('key')
+
+  if (!key) {
+    return NextResponse.json({ error: 'Missing key parameter' }, { status: 400 })
+  }
+
+  try {
+    const assetStore = getStorage(ASSET_STORAGE_NAME)
+    const head = await getLinkedMetadata(assetStore, key)
+
+    if (!head) {
+      // Keys moved by the key migration redirect to their new key
+      const redirect = await getKeyRedirect(ASSET_STORAGE_NAME, key)
+      if (redirect) {
+        const url = new URL(request.url)
+        url.searchParams.set('key', redirect.to)
+        return NextResponse.redirect(url, 301)
+      }
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+    }
+
+    // Honor ?w= and ?q= (plus size presets and Accept negotiation) through the shared variant cache
+    const transform = parseTransformParams(searchParams, request.headers.get('accept'))
+    const etag = buildEtag(head.etag || key, transform ? variantKey(key, transform) : undefined)
+    const lastModified = lastModifiedFrom(head.metadata)
+
+    if (isNotModified(request.headers, etag, lastModified)) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders(key, etag, lastModified) })
+    }
+
+    const loadOriginal = async () => {
+      const data = await assetStore.get(head.key, { type: 'arrayBuffer' })
+      if (!data) throw new Error(`Blob disappeared while serving: ${key}`)
+      return toImageBuffer(data)
+    }
+
+    const { buffer, contentType } = transform
+      ? await getOrCreateVariant(ASSET_STORAGE_NAME, head.key, transform, head.etag, loadOriginal)
+      : await loadOriginal().then(original => ({ buffer: original, contentType: getContentType(key, original) }))
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': buffer.length.toString(),
+        'X-Content-Type-Options': 'nosniff',
+        ...cacheHeaders(key, etag, lastModified)
+      }
+    })
+  } catch (error) {
+    if (error instanceof InvalidBlobKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error(`Error serving image ${key}:`, error)
+    return NextResponse.json({ error: 'Failed to load image' }, { status: 500 })
+  }
+}
@@ -1,13 +1,13 @@
 import { NextResponse } from 'next/server'
-import { getStore } from '@netlify/blobs'
+import { ASSET_STORAGE_NAME, getStorage } from '@/lib/storage'
 
 export async function GET(request: Request) {
   try {
     const url = new URL(request.url)
     const prefix = url.searchParams.get('prefix') || ''
     
-    const assetStore = getStore('property-assets')
-    const { blobs } = await assetStore.list({ prefix })
+    const assetStore = getStorage(ASSET_STORAGE_NAME)
+    const blobs = await assetStore.list(prefix)
     
     const assets = blobs.map(blob => ({
       key: blob.key,
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { getPropertyData } from '@/lib/propertyData'
+
+export async function GET() {
+  try {
+    const data = await getPropertyData()
+    return NextResponse.json(data, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error loading property data:', error)
+    return NextResponse.json({ error: 'Failed to load property data' }, { status: 500 })
+  }
+}
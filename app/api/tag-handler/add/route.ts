@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { updateManifestEntry } from '@/lib/eventManifest'
+import { normalizeTag, updateAssetTags } from '@/lib/tags'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { key, tag } = await request.json()
+
+    if (!key || typeof tag !== 'string' || !normalizeTag(tag)) {
+      return NextResponse.json({ error: 'Missing key or tag' }, { status: 400 })
+    }
+
+    const { tags } = await updateAssetTags(key, current => [...current, tag])
+    await updateManifestEntry(key, entry => ({ ...entry, tags }))
+
+    return NextResponse.json({ success: true, tags })
+  } catch (error) {
+    console.error('Error adding tag:', error)
+    return NextResponse.json({ error: 'Failed to add tag' }, { status: 500 })
+  }
+}
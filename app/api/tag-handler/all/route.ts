@@ -1,29 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getStore } from '@netlify/blobs'
+import { getTagIndex, rebuildTagIndex, tagCounts } from '@/lib/tags'
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const tagStore = getStore('asset-metadata')
-    const { blobs } = await tagStore.list({ prefix: 'tags:' })
-    
-    // Count occurrences of each tag
-    const tagCount: Record<string, number> = {}
-    
-    for (const blob of blobs) {
-      const tags = await tagStore.get(blob.key, { type: 'json' }) || []
-      for (const tag of tags) {
-        tagCount[tag] = (tagCount[tag] || 0) + 1
-      }
-    }
-    
-    const tags = Object.entries(tagCount).map(([name, count]) => ({
-      name,
-      count
-    }))
+    const { searchParams } = new URL(request.url)
+
+    // ?rebuild=1 rescans every tags: entry to repair the index
+    const index = searchParams.get('rebuild') ? await rebuildTagIndex() : await getTagIndex()
+    const tags = tagCounts(index)
 
     return NextResponse.json({ tags })
   } catch (error) {
     console.error('Error getting all tags:', error)
     return NextResponse.json({ error: 'Failed to get tags' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTagIndex, normalizeTag } from '@/lib/tags'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const tag = normalizeTag(searchParams.get('tag') || '')
+
+    if (!tag) {
+      return NextResponse.json({ error: 'Missing tag parameter' }, { status: 400 })
+    }
+
+    const index = await getTagIndex()
+    const assets = index.tags[tag] || []
+
+    return NextResponse.json({ tag, assets, count: assets.length })
+  } catch (error) {
+    console.error('Error getting assets for tag:', error)
+    return NextResponse.json({ error: 'Failed to get assets for tag' }, { status: 500 })
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getStore } from '@netlify/blobs'
+import { getAssetTags } from '@/lib/tags'
 
 export async function GET(request: NextRequest) {
   try {
@@ -10,9 +10,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Missing key parameter' }, { status: 400 })
     }
 
-    const tagStore = getStore('asset-metadata')
-    const tagKey = `tags:${key}`
-    const tags = await tagStore.get(tagKey, { type: 'json' }) || []
+    const tags = await getAssetTags(key)
 
     return NextResponse.json({ tags })
   } catch (error) {
@@ -1,27 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { updateManifestEntry } from '@/lib/eventManifest'
+import { recordRating } from '@/lib/ratings'
 
 export async function POST(request: NextRequest) {
   try {
-    const { assetId, rating } = await request.json()
-    
-    if (!assetId || typeof rating !== 'number' || rating < 1 || rating > 5) {
+    const { assetId, rating, userId } = await request.json()
+
+    if (!assetId || typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > 5) {
       return NextResponse.json(
-        { error: 'Invalid asset ID or rating' }, 
+        { error: 'Invalid asset ID or rating' },
         { status: 400 }
       )
     }
-    
-    // TODO: Implement actual storage (Netlify Blobs, database, etc.)
-    console.log(`Updating rating for asset ${assetId} to ${rating}`)
-    
-    // For now, return success - this would integrate with your storage solution
-    return NextResponse.json({ success: true })
-    
+
+    const raterId = typeof userId === 'string' && userId.trim() ? userId.trim() : 'anonymous'
+    const summary = await recordRating(assetId, raterId, rating)
+
+    if (!summary) {
+      return NextResponse.json(
+        { error: 'Asset not found' },
+        { status: 404 }
+      )
+    }
+
+    await updateManifestEntry(assetId, entry => ({
+      ...entry,
+      rating: summary.rating,
+      ratingCount: summary.ratingCount
+    }))
+
+    return NextResponse.json({
+      success: true,
+      rating: summary.rating,
+      ratingCount: summary.ratingCount,
+      userRating: rating
+    })
+
   } catch (error) {
     console.error('Error updating rating:', error)
     return NextResponse.json(
-      { error: 'Failed to update rating' }, 
+      { error: 'Failed to update rating' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
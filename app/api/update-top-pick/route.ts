@@ -1,27 +1,78 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { updateAssetMetadata } from '@/lib/assetMetadata'
+import { buildEventKey, parseEventKey } from '@/lib/assets'
+import { toManifestEntry, updateManifestEntry } from '@/lib/eventManifest'
+import { updatePartyTopPicks } from '@/lib/propertyData'
+import { ASSET_STORAGE_NAME, getStorage } from '@/lib/storage'
 
 export async function POST(request: NextRequest) {
   try {
-    const { assetId, topPick } = await request.json()
-    
+    const { assetId, topPick, mirror = false } = await request.json()
+
     if (!assetId || typeof topPick !== 'boolean') {
       return NextResponse.json(
-        { error: 'Invalid asset ID or top pick value' }, 
+        { error: 'Invalid asset ID or top pick value' },
         { status: 400 }
       )
     }
-    
-    // TODO: Implement actual storage (Netlify Blobs, database, etc.)
-    console.log(`Updating top pick for asset ${assetId} to ${topPick}`)
-    
-    // For now, return success - this would integrate with your storage solution
-    return NextResponse.json({ success: true })
-    
+
+    const metadata = await updateAssetMetadata(assetId, current => ({ ...current, topPick }))
+
+    if (!metadata) {
+      return NextResponse.json(
+        { error: 'Asset not found' },
+        { status: 404 }
+      )
+    }
+
+    const event = parseEventKey(assetId)
+    if (!event) {
+      // Not an event photo, so there's no top/ folder, party list or manifest to keep in sync
+      return NextResponse.json({ success: true, topPick })
+    }
+
+    const { year, propertyId, section, filename } = event
+    const mirrorKey = section === 'top' ? null : buildEventKey(propertyId, year, filename, 'top')
+    const assetStore = getStorage(ASSET_STORAGE_NAME)
+    let mirrored = false
+
+    if (mirrorKey && topPick && mirror) {
+      const data = await assetStore.get(assetId, { type: 'arrayBuffer' })
+      if (data) {
+        await assetStore.put(mirrorKey, data, { metadata: { ...metadata, topPick: true, mirrorOf: assetId } })
+        mirrored = true
+      }
+    } else if (mirrorKey && !topPick) {
+      // Drop any copy made by an earlier mirrored toggle
+      await assetStore.delete(mirrorKey)
+    }
+
+    await updateManifestEntry(assetId, entry => ({ ...entry, topPick }))
+    if (mirrorKey && mirrored) {
+      await updateManifestEntry(mirrorKey, entry => toManifestEntry(mirrorKey, { ...metadata, topPick: true }, entry.tags))
+    } else if (mirrorKey && !topPick) {
+      await updateManifestEntry(mirrorKey, () => null)
+    }
+
+    const topKey = mirrored && mirrorKey ? mirrorKey : assetId
+    const remove = mirrorKey ? [assetId, mirrorKey] : [assetId]
+    const synced = await updatePartyTopPicks(propertyId, parseInt(year, 10), {
+      add: topPick ? [topKey] : [],
+      remove
+    })
+
+    return NextResponse.json({
+      success: true,
+      topPick,
+      mirrorKey: mirrored ? mirrorKey : null,
+      propertyDataSynced: synced
+    })
+
   } catch (error) {
     console.error('Error updating top pick:', error)
     return NextResponse.json(
-      { error: 'Failed to update top pick' }, 
+      { error: 'Failed to update top pick' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthenticated } from '@/lib/auth'
+import { saveUploadChunk, UploadError } from '@/lib/uploads'
+
+// PUT /api/upload/{id}/chunks/{index}  raw chunk bytes as the body
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  if (!(await isAuthenticated(request))) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  try {
+    const { id, index } = await params
+    await saveUploadChunk(id, parseInt(index, 10), await request.arrayBuffer())
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error saving upload chunk:', error)
+    return NextResponse.json({ error: 'Failed to save chunk' }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { after, NextRequest, NextResponse } from 'next/server'
+import { isAuthenticated } from '@/lib/auth'
+import { completeUpload, prerenderThumbnails, UploadError } from '@/lib/uploads'
+
+// POST /api/upload/{id}/complete  assembles the chunks and stores the photo with its metadata
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await isAuthenticated(request))) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const { key, metadata, action, duplicateOf } = await completeUpload(id)
+
+    // Thumbnails render after the response so the next file can start straight away
+    if (action === 'stored') {
+      after(async () => {
+        try {
+          await prerenderThumbnails(key)
+        } catch (error) {
+          console.warn(`Failed to prerender thumbnails for ${key}:`, error)
+        }
+      })
+    }
+
+    return NextResponse.json({ success: true, key, metadata, action, duplicateOf })
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error completing upload:', error)
+    return NextResponse.json({ error: 'Failed to complete upload' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthenticated } from '@/lib/auth'
+import { loadEventManifest } from '@/lib/eventManifest'
+import { UPLOAD_TARGET_STORE } from '@/lib/uploads'
+
+// POST /api/upload/finish  { propertyId, year }
+// Called once a batch is done: brings the event manifest up to date with the new photos
+export async function POST(request: NextRequest) {
+  if (!(await isAuthenticated(request))) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  try {
+    const { propertyId, year } = await request.json()
+
+    if (typeof propertyId !== 'string' || typeof year !== 'string') {
+      return NextResponse.json({ error: 'Property ID and year are required' }, { status: 400 })
+    }
+
+    const manifest = await loadEventManifest(propertyId, year, UPLOAD_TARGET_STORE)
+
+    return NextResponse.json({
+      success: true,
+      total: manifest.assets.length,
+      updatedAt: manifest.updatedAt
+    })
+  } catch (error) {
+    console.error('Error updating event manifest after upload:', error)
+    return NextResponse.json({ error: 'Failed to update event manifest' }, { status: 500 })
+  }
+}
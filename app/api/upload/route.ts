@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthenticated } from '@/lib/auth'
+import { isDuplicatePolicy } from '@/lib/contentIndex'
+import { createUploadSession, findExistingUpload, UPLOAD_CHUNK_SIZE, UploadError } from '@/lib/uploads'
+
+// POST /api/upload  { propertyId, year, filename, size, client?: { captureTime, width, height },
+//                     onDuplicate?: 'skip' | 'link' | 'keep', contentHash? }
+// Opens an upload session; send chunks to /api/upload/{id}/chunks/{index}, then POST /api/upload/{id}/complete.
+// With onDuplicate=skip and a contentHash the store already has, answers { duplicateOf } instead.
+export async function POST(request: NextRequest) {
+  if (!(await isAuthenticated(request))) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  let body: Record<string, any>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (body.onDuplicate !== undefined && !isDuplicatePolicy(body.onDuplicate)) {
+    return NextResponse.json({ error: 'onDuplicate must be skip, link or keep' }, { status: 400 })
+  }
+  const onDuplicate = body.onDuplicate || 'skip'
+
+  try {
+    if (onDuplicate === 'skip' && typeof body.contentHash === 'string') {
+      const duplicateOf = await findExistingUpload(body.contentHash)
+      if (duplicateOf) {
+        return NextResponse.json({ action: 'skipped', key: duplicateOf, duplicateOf })
+      }
+    }
+
+    const session = await createUploadSession({
+      propertyId: String(body.propertyId || ''),
+      year: String(body.year || ''),
+      filename: String(body.filename || ''),
+      size: Number(body.size),
+      client: body.client,
+      onDuplicate
+    })
+
+    return NextResponse.json({
+      uploadId: session.id,
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      chunkCount: session.chunkCount
+    })
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error creating upload session:', error)
+    return NextResponse.json({ error: 'Failed to start upload' }, { status: 500 })
+  }
+}
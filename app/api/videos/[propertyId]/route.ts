@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { listPropertyVideos } from '@/lib/videos'
 
 export async function GET(
   request: NextRequest,
@@ -14,43 +15,11 @@ export async function GET(
       )
     }
     
-    // TODO: Implement actual video loading from storage
-    // This could integrate with Netlify Blobs, file system, or database
-    console.log(`Loading videos for property: ${propertyId}`)
-    
-    // For now, return mock data structure
-    const mockVideos = [
-      {
-        id: '1',
-        filename: 'property_tour.mp4',
-        path: `/videos/${propertyId}/property_tour.mp4`,
-        thumbnailUrl: `/videos/${propertyId}/thumbnails/property_tour.jpg`,
-        size: 15728640, // 15MB
-        duration: 120, // 2 minutes
-        metadata: {
-          width: 1920,
-          height: 1080,
-          format: 'mp4'
-        }
-      },
-      {
-        id: '2',
-        filename: 'aerial_view.mov',
-        path: `/videos/${propertyId}/aerial_view.mov`,
-        thumbnailUrl: `/videos/${propertyId}/thumbnails/aerial_view.jpg`,
-        size: 25165824, // 24MB
-        duration: 90, // 1.5 minutes
-        metadata: {
-          width: 3840,
-          height: 2160,
-          format: 'mov'
-        }
-      }
-    ]
+    const videos = await listPropertyVideos(propertyId)
     
     return NextResponse.json({ 
-      videos: mockVideos,
-      total: mockVideos.length 
+      videos,
+      total: videos.length 
     })
     
   } catch (error) {
@@ -60,4 +29,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -1,10 +1,10 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import Image from 'next/image';
-import JSZip from 'jszip';
-import { saveAs } from 'file-saver';
 import TagManager from './TagManager';
+import { Asset, eventListPrefix, isEventAsset, parseAssetKey } from '@/lib/assets';
+import { metadataCache, PhotoMetadata } from '@/lib/metadataCache';
 
 interface Photo {
   key: string;
@@ -25,6 +25,26 @@ interface EventGalleryProps {
 
 type SortOption = 'date-asc' | 'date-desc' | 'name-asc' | 'name-desc' | 'status';
 
+interface ExportJobProgress {
+  id: string;
+  status: 'queued' | 'running' | 'complete' | 'failed';
+  processed: number;
+  total: number | null;
+  missing: number;
+  size: number;
+  error: string | null;
+  downloadUrl: string | null;
+}
+
+interface Burst {
+  cover: string;
+  keys: string[];
+}
+
+const EXPORT_POLL_INTERVAL = 2000;
+// Bursts are re-fetched while the server is still hashing older photos
+const BURST_POLL_INTERVAL = 3000;
+
 export default function EnhancedEventGallery({ propertyId, year }: EventGalleryProps) {
   const [photos, setPhotos] = useState<Photo[]>([]);
   const [filteredPhotos, setFilteredPhotos] = useState<Photo[]>([]);
@@ -35,10 +55,16 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
   const [availableTags, setAvailableTags] = useState<{ name: string; count: number }[]>([]);
   const [sortBy, setSortBy] = useState<SortOption>('date-desc');
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
+  const [selectedMetadata, setSelectedMetadata] = useState<PhotoMetadata | null>(null);
   const [visiblePhotos, setVisiblePhotos] = useState(20);
-  const [downloadProgress, setDownloadProgress] = useState<string | null>(null);
+  const [exportJob, setExportJob] = useState<ExportJobProgress | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
   const [showTagManager, setShowTagManager] = useState(false);
   const [selectedPhotoForTagging, setSelectedPhotoForTagging] = useState<Photo | null>(null);
+  const [stackBursts, setStackBursts] = useState(false);
+  const [bursts, setBursts] = useState<Burst[]>([]);
+  const [burstsPending, setBurstsPending] = useState(0);
+  const [expandedBurst, setExpandedBurst] = useState<string | null>(null);
   const observerRef = useRef<IntersectionObserver | null>(null);
   const loadMoreRef = useRef<HTMLDivElement>(null);
 
@@ -51,6 +77,109 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
     filterAndSortPhotos();
   }, [photos, filter, searchTerm, selectedTags, sortBy]);
 
+  // Camera details for the lightbox; neighbouring photos are fetched in the background
+  useEffect(() => {
+    if (!selectedPhoto) return;
+
+    let cancelled = false;
+    setSelectedMetadata(metadataCache.get(selectedPhoto.key) || null);
+    metadataCache.extractMetadata(selectedPhoto.key).then(metadata => {
+      if (!cancelled) setSelectedMetadata(metadata);
+    });
+
+    const index = filteredPhotos.findIndex(photo => photo.key === selectedPhoto.key);
+    if (index !== -1) {
+      metadataCache.queueForPreload(
+        filteredPhotos.slice(Math.max(index - 2, 0), index + 3).map(photo => photo.key)
+      );
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPhoto, filteredPhotos]);
+
+  // Poll a background export until it completes or fails
+  useEffect(() => {
+    if (!exportJob || exportJob.status === 'complete' || exportJob.status === 'failed') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/export/jobs/${exportJob.id}`);
+        if (!response.ok) throw new Error(`Status check failed: ${response.status}`);
+        setExportJob(await response.json());
+      } catch (error) {
+        console.error('Error checking export progress:', error);
+        // Keep polling; a transient failure shouldn't abandon the export
+        setExportJob(job => job && { ...job });
+      }
+    }, EXPORT_POLL_INTERVAL);
+
+    return () => clearTimeout(timer);
+  }, [exportJob]);
+
+  // Burst stacks for culling, fetched when the mode is switched on
+  useEffect(() => {
+    if (!stackBursts) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const fetchBursts = async () => {
+      try {
+        const response = await fetch(`/api/events/${propertyId}/${year}/bursts`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `Burst lookup failed: ${response.status}`);
+        if (cancelled) return;
+        setBursts(data.bursts);
+        setBurstsPending(data.pending);
+        if (data.pending > 0) timer = setTimeout(fetchBursts, BURST_POLL_INTERVAL);
+      } catch (error) {
+        console.error('Error fetching bursts:', error);
+      }
+    };
+    fetchBursts();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [stackBursts, propertyId, year]);
+
+  // In burst mode each burst shows as one stack: its best frame that passes the filters,
+  // with the other frames hidden until the stack is expanded
+  const { displayPhotos, stackSizes } = useMemo(() => {
+    const stackSizes = new Map<string, number>();
+    if (!stackBursts || bursts.length === 0) {
+      return { displayPhotos: filteredPhotos, stackSizes };
+    }
+
+    const visible = new Set(filteredPhotos.map(photo => photo.key));
+    const hidden = new Set<string>();
+    const order = new Map<string, number>();
+    for (const burst of bursts) {
+      const frames = burst.keys.filter(key => visible.has(key));
+      if (frames.length < 2) continue;
+      stackSizes.set(frames[0], frames.length);
+      if (expandedBurst === burst.cover) {
+        frames.forEach((key, index) => order.set(key, index));
+      } else {
+        frames.slice(1).forEach(key => hidden.add(key));
+      }
+    }
+
+    const displayPhotos = filteredPhotos.filter(photo => !hidden.has(photo.key));
+    // An expanded stack lists its frames best first, in place of the stack
+    const expanded = displayPhotos.filter(photo => order.has(photo.key)).sort((a, b) => order.get(a.key)! - order.get(b.key)!);
+    if (expanded.length > 0) {
+      const start = displayPhotos.findIndex(photo => order.has(photo.key));
+      const rest = displayPhotos.filter(photo => !order.has(photo.key));
+      return { displayPhotos: [...rest.slice(0, start), ...expanded, ...rest.slice(start)], stackSizes };
+    }
+    return { displayPhotos, stackSizes };
+  }, [filteredPhotos, bursts, stackBursts, expandedBurst]);
+
+  const burstOf = (key: string) => bursts.find(burst => burst.keys.includes(key));
+
   // Infinite scroll setup
   useEffect(() => {
     const options = {
@@ -60,8 +189,8 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
     };
 
     observerRef.current = new IntersectionObserver((entries) => {
-      if (entries[0].isIntersecting && visiblePhotos < filteredPhotos.length) {
-        setVisiblePhotos(prev => Math.min(prev + 20, filteredPhotos.length));
+      if (entries[0].isIntersecting && visiblePhotos < displayPhotos.length) {
+        setVisiblePhotos(prev => Math.min(prev + 20, displayPhotos.length));
       }
     }, options);
 
@@ -74,41 +203,29 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
         observerRef.current.disconnect();
       }
     };
-  }, [visiblePhotos, filteredPhotos.length]);
+  }, [visiblePhotos, displayPhotos.length]);
 
   const fetchPhotos = async () => {
     try {
-      // For 2025, fetch all assets without prefix (like the working code)
-      let prefix = year === '2025' ? '' : `parties/${year}/${propertyId}/`;
-      let response = await fetch(year === '2025' ? '/api/asset-handler/list' : `/api/asset-handler/list?prefix=${encodeURIComponent(prefix)}`);
-      let data = await response.json();
-      
-      // If no photos found and it's not 2025, try with /all subdirectory
-      if ((!data.assets || data.assets.length === 0) && year !== '2025') {
-        prefix = `parties/${year}/${propertyId}/all/`;
-        response = await fetch(`/api/asset-handler/list?prefix=${encodeURIComponent(prefix)}`);
-        data = await response.json();
-      }
+      // Flat-keyed years are listed from the store root and narrowed to this event
+      const prefix = eventListPrefix(propertyId, year);
+      const response = await fetch(prefix ? `/api/asset-handler/list?prefix=${encodeURIComponent(prefix)}` : '/api/asset-handler/list');
+      const data = await response.json();
       
       if (data.assets && data.assets.length > 0) {
-        // Parse the keys to extract metadata - simpler approach like working code
-        const photoData = data.assets.map((asset: any) => {
-          const key = asset.key;
-          const parts = key.split('_');
-          const status = key.includes('PICKED') ? 'picked' : 'unpicked';
-          const timestamp = parts[1] || '';
-          
-          return {
-            key,
-            filename: asset.filename || `${key}.jpg`,
-            status,
-            timestamp,
-            date: parseTimestamp(timestamp),
-            url: `/api/asset-handler/serve?key=${key}`,
-            thumbUrl: `/api/asset-handler/serve?key=${key}&size=thumb`,
-            mediumUrl: `/api/asset-handler/serve?key=${key}&size=medium`
-          };
-        });
+        const photoData: Photo[] = data.assets
+          .map((listed: { key: string }) => parseAssetKey(listed.key))
+          .filter((asset: Asset) => isEventAsset(asset, propertyId, year))
+          .map((asset: Asset) => ({
+            key: asset.key,
+            filename: asset.filename,
+            status: asset.status,
+            timestamp: asset.timestamp || '',
+            date: asset.date,
+            url: `/api/asset-handler/serve?key=${asset.key}`,
+            thumbUrl: `/api/asset-handler/serve?key=${asset.key}&size=thumb`,
+            mediumUrl: `/api/asset-handler/serve?key=${asset.key}&size=medium`
+          }));
         
         // Sort by timestamp like in working code
         photoData.sort((a: Photo, b: Photo) => a.timestamp.localeCompare(b.timestamp));
@@ -135,20 +252,6 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
     }
   };
 
-  const parseTimestamp = (timestamp: string) => {
-    // Parse 20250807180510 format
-    if (timestamp.length >= 14) {
-      const year = timestamp.substring(0, 4);
-      const month = timestamp.substring(4, 6);
-      const day = timestamp.substring(6, 8);
-      const hour = timestamp.substring(8, 10);
-      const minute = timestamp.substring(10, 12);
-      const second = timestamp.substring(12, 14);
-      return `${year}-${month}-${day} ${hour}:${minute}:${second}`;
-    }
-    return timestamp;
-  };
-
   const filterAndSortPhotos = () => {
     let filtered = [...photos];
 
@@ -224,35 +327,33 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
   };
 
   const downloadAllAsZip = async () => {
-    const zip = new JSZip();
-    const total = filteredPhotos.length;
-    
-    setDownloadProgress(`Preparing download... 0/${total}`);
-    
+    // The archive is assembled by a background job; progress is polled and the
+    // finished file offered as a link
+    setExportError(null);
     try {
-      for (let i = 0; i < filteredPhotos.length; i++) {
-        const photo = filteredPhotos[i];
-        setDownloadProgress(`Downloading ${i + 1}/${total}: ${photo.filename}`);
-        
-        const response = await fetch(photo.url);
-        const blob = await response.blob();
-        zip.file(photo.filename, blob);
-        
-        // Small delay to prevent overwhelming the server
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-      
-      setDownloadProgress('Creating zip file...');
-      const content = await zip.generateAsync({ type: 'blob' });
-      saveAs(content, `${propertyId}-${year}-photos.zip`);
-      setDownloadProgress(null);
+      const response = await fetch('/api/export/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          keys: filteredPhotos.map(photo => photo.key),
+          filename: `${propertyId}-${year}-photos.zip`
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to start export');
+      setExportJob(data);
     } catch (error) {
-      console.error('Error creating zip:', error);
-      setDownloadProgress(null);
-      alert('Error creating zip file. Please try again.');
+      console.error('Error starting export:', error);
+      setExportError(error instanceof Error ? error.message : 'Failed to start export');
     }
   };
 
+  const exportLabel = () => {
+    if (!exportJob) return 'Download All as ZIP';
+    if (exportJob.status === 'queued' || exportJob.total === null) return 'Preparing export...';
+    return `Packing ${exportJob.processed} of ${exportJob.total} photos...`;
+  };
+
   const handlePhotoTagUpdate = (photo: Photo) => {
     // Refresh tags for this photo
     fetchPhotos();
@@ -326,6 +427,20 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
           >
             Unpicked ({photos.filter(p => p.status === 'unpicked').length})
           </button>
+          <label className="flex items-center gap-2 ml-auto text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={stackBursts}
+              onChange={(e) => {
+                setStackBursts(e.target.checked);
+                setExpandedBurst(null);
+              }}
+            />
+            Stack bursts
+            {stackBursts && burstsPending > 0 && (
+              <span className="text-gray-500">(analysing {burstsPending} photos...)</span>
+            )}
+          </label>
         </div>
 
         {/* Tag Filter */}
@@ -354,16 +469,38 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
         <div className="flex justify-between items-center">
           <span className="text-gray-600">
             Showing {filteredPhotos.length} photos
+            {stackSizes.size > 0 && ` in ${displayPhotos.length} stacks and singles`}
             {selectedTags.length > 0 && ` (filtered by ${selectedTags.length} tag${selectedTags.length > 1 ? 's' : ''})`}
           </span>
-          <div className="flex gap-2">
-            {filteredPhotos.length > 0 && (
+          <div className="flex gap-2 items-center">
+            {(exportError || exportJob?.status === 'failed' || (exportJob?.missing ?? 0) > 0) && (
+              <span className="text-sm text-red-600">
+                {exportError || exportJob?.error || `${exportJob?.missing} photos could not be found`}
+              </span>
+            )}
+            {exportJob?.status === 'complete' && exportJob.downloadUrl ? (
+              <>
+                <a
+                  href={exportJob.downloadUrl}
+                  download
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                >
+                  Download ZIP ({(exportJob.size / (1024 * 1024)).toFixed(1)} MB)
+                </a>
+                <button
+                  onClick={() => setExportJob(null)}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+                >
+                  Done
+                </button>
+              </>
+            ) : filteredPhotos.length > 0 && (
               <button
                 onClick={downloadAllAsZip}
-                disabled={downloadProgress !== null}
+                disabled={exportJob !== null && exportJob.status !== 'failed'}
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {downloadProgress || 'Download All as ZIP'}
+                {exportJob?.status === 'failed' ? 'Retry ZIP Download' : exportLabel()}
               </button>
             )}
           </div>
@@ -372,10 +509,16 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
 
       {/* Photo Grid */}
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-        {filteredPhotos.slice(0, visiblePhotos).map(photo => (
+        {displayPhotos.slice(0, visiblePhotos).map(photo => (
           <PhotoCard
             key={photo.key}
             photo={photo}
+            stackSize={stackSizes.get(photo.key)}
+            stackExpanded={expandedBurst !== null && expandedBurst === burstOf(photo.key)?.cover}
+            onToggleStack={() => {
+              const cover = burstOf(photo.key)?.cover ?? null;
+              setExpandedBurst(current => (current === cover ? null : cover));
+            }}
             onSelect={() => setSelectedPhoto(photo)}
             onDownload={() => downloadPhoto(photo)}
             onTagClick={() => {
@@ -387,7 +530,7 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
       </div>
 
       {/* Load More Trigger */}
-      {visiblePhotos < filteredPhotos.length && (
+      {visiblePhotos < displayPhotos.length && (
         <div ref={loadMoreRef} className="flex justify-center items-center py-8">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           <span className="ml-3 text-gray-600">Loading more photos...</span>
@@ -423,6 +566,7 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
               <h3 className="text-lg font-semibold">{selectedPhoto.filename}</h3>
               <p className="text-gray-600">Status: {selectedPhoto.status.toUpperCase()}</p>
               <p className="text-gray-600">Date: {selectedPhoto.date}</p>
+              <CameraDetails metadata={selectedMetadata} />
               
               {/* Tags in lightbox */}
               <div className="mt-4">
@@ -498,8 +642,12 @@ export default function EnhancedEventGallery({ propertyId, year }: EventGalleryP
 }
 
 // Optimized PhotoCard component with lazy loading
-function PhotoCard({ photo, onSelect, onDownload, onTagClick }: {
+function PhotoCard({ photo, stackSize, stackExpanded, onToggleStack, onSelect, onDownload, onTagClick }: {
   photo: Photo;
+  // Frames in the burst this photo tops, when shown as a stack
+  stackSize?: number;
+  stackExpanded: boolean;
+  onToggleStack: () => void;
   onSelect: () => void;
   onDownload: () => void;
   onTagClick: () => void;
@@ -529,8 +677,11 @@ function PhotoCard({ photo, onSelect, onDownload, onTagClick }: {
 
   return (
     <div
-      className={`relative group cursor-pointer rounded-lg overflow-hidden shadow-md hover:shadow-xl transition-shadow ${
+      className={`relative group cursor-pointer rounded-lg overflow-hidden transition-shadow ${
         photo.status === 'picked' ? 'ring-2 ring-green-500' : ''
+      } ${
+        // Offset edges behind a collapsed burst read as a stack of prints
+        stackSize && !stackExpanded ? 'shadow-[6px_6px_0_-1px_#d1d5db,12px_12px_0_-2px_#e5e7eb]' : 'shadow-md hover:shadow-xl'
       }`}
       onClick={onSelect}
     >
@@ -586,6 +737,20 @@ function PhotoCard({ photo, onSelect, onDownload, onTagClick }: {
           </div>
         </div>
         
+        {/* Burst stack toggle */}
+        {stackSize && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleStack();
+            }}
+            className="absolute top-2 left-2 px-2 py-1 text-xs bg-black/70 text-white rounded-full hover:bg-black/90"
+            title={stackExpanded ? 'Collapse burst' : 'Show every frame in this burst'}
+          >
+            {stackExpanded ? 'Collapse' : `${stackSize} frames`}
+          </button>
+        )}
+
         {/* Action buttons */}
         <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
           <button
@@ -617,4 +782,30 @@ function PhotoCard({ photo, onSelect, onDownload, onTagClick }: {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+// Camera, lens and exposure summary read from the photo's EXIF
+function CameraDetails({ metadata }: { metadata: PhotoMetadata | null }) {
+  if (!metadata) {
+    return <p className="text-gray-400 text-sm">Loading camera details...</p>;
+  }
+
+  const camera = [metadata.Make, metadata.Model].filter(Boolean).join(' ');
+  const exposure = [
+    metadata.ExposureTime && `${metadata.ExposureTime}s`,
+    metadata.FNumber && `f/${Math.round(metadata.FNumber * 10) / 10}`,
+    metadata.ISO && `ISO ${metadata.ISO}`,
+    metadata.FocalLength && `${Math.round(metadata.FocalLength)}mm`
+  ].filter(Boolean).join(' · ');
+
+  if (!camera && !metadata.LensModel && !exposure) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 text-sm text-gray-600 space-y-1">
+      {camera && <p>Camera: {camera}</p>}
+      {metadata.LensModel && <p>Lens: {metadata.LensModel}</p>}
+      {exposure && <p>Exposure: {exposure}</p>}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from 'react';
 import Image from 'next/image';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
+import { eventPrefix, parseAssetKey } from '@/lib/assets';
 
 interface Photo {
   key: string;
@@ -69,29 +70,23 @@ export default function EventGallery({ propertyId, year }: EventGalleryProps) {
   const fetchPhotos = async () => {
     try {
       // Fetch from the Netlify function
-      const prefix = `parties/${year}/${propertyId}/`;
+      const prefix = eventPrefix(propertyId, year);
       const response = await fetch(`/api/asset-handler/list?prefix=${encodeURIComponent(prefix)}`);
       const data = await response.json();
       
       if (data.assets) {
-        // Parse the keys to extract metadata
-        const photoData = data.assets.map((asset: any) => {
-          const key = asset.key;
-          // Remove the prefix to get the filename
-          const filename = key.replace(prefix, '');
-          const parts = filename.split('_');
-          const status = filename.includes('PICKED') ? 'picked' : 'unpicked';
-          const timestamp = parts[1] || '';
+        const photoData = data.assets.map((listed: { key: string }) => {
+          const asset = parseAssetKey(listed.key);
           
           return {
-            key,
-            filename: `${filename}.jpg`,
-            status,
-            timestamp,
-            date: parseTimestamp(timestamp),
-            url: `/api/asset-handler/serve?key=${encodeURIComponent(key)}`,
-            thumbUrl: `/api/asset-handler/serve?key=${encodeURIComponent(key)}&size=thumb`,
-            mediumUrl: `/api/asset-handler/serve?key=${encodeURIComponent(key)}&size=medium`
+            key: asset.key,
+            filename: asset.filename,
+            status: asset.status,
+            timestamp: asset.timestamp || '',
+            date: asset.date,
+            url: `/api/asset-handler/serve?key=${encodeURIComponent(asset.key)}`,
+            thumbUrl: `/api/asset-handler/serve?key=${encodeURIComponent(asset.key)}&size=thumb`,
+            mediumUrl: `/api/asset-handler/serve?key=${encodeURIComponent(asset.key)}&size=medium`
           };
         });
         
@@ -108,20 +103,6 @@ export default function EventGallery({ propertyId, year }: EventGalleryProps) {
     }
   };
 
-  const parseTimestamp = (timestamp: string) => {
-    // Parse 20250807180510 format
-    if (timestamp.length >= 14) {
-      const year = timestamp.substring(0, 4);
-      const month = timestamp.substring(4, 6);
-      const day = timestamp.substring(6, 8);
-      const hour = timestamp.substring(8, 10);
-      const minute = timestamp.substring(10, 12);
-      const second = timestamp.substring(12, 14);
-      return `${year}-${month}-${day} ${hour}:${minute}:${second}`;
-    }
-    return timestamp;
-  };
-
   const filterPhotos = () => {
     let filtered = [...photos];
 
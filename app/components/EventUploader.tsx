@@ -0,0 +1,367 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import Link from 'next/link';
+import { exifDateToIso, extractPhotoMetadata } from '@/lib/exif';
+
+interface UploadItem {
+  id: string;
+  file: File;
+  status: 'queued' | 'reading' | 'uploading' | 'processing' | 'done' | 'failed';
+  // Bytes acknowledged by the server
+  uploaded: number;
+  error?: string;
+  key?: string;
+  // Set when the store already had these bytes under another key
+  duplicate?: { action: 'skipped' | 'linked'; key: string };
+  captureTime?: string | null;
+  width?: number | null;
+  height?: number | null;
+  // Kept across retries so a failed file resumes from its last chunk
+  uploadId?: string;
+  chunkSize?: number;
+  chunkCount?: number;
+  nextChunk?: number;
+}
+
+interface EventUploaderProps {
+  propertyId: string;
+  year: string;
+}
+
+type DuplicatePolicy = 'skip' | 'link' | 'keep';
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const FILE_CONCURRENCY = 3;
+const CHUNK_RETRIES = 3;
+// Enough of the file to cover the EXIF segment
+const EXIF_HEADER_BYTES = 256 * 1024;
+
+// Capture time and displayed dimensions, read in the browser before uploading
+async function readClientMetadata(file: File) {
+  let captureTime: string | null = null;
+  try {
+    const exif = extractPhotoMetadata(await file.slice(0, EXIF_HEADER_BYTES).arrayBuffer());
+    captureTime = exifDateToIso(exif.DateTimeOriginal, exif.OffsetTimeOriginal);
+  } catch {
+    // No readable EXIF; the server still checks the full file
+  }
+
+  let width: number | null = null;
+  let height: number | null = null;
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    width = bitmap.width;
+    height = bitmap.height;
+    bitmap.close();
+  } catch {
+    // Format the browser can't decode; the server measures it instead
+  }
+
+  return { captureTime, width, height };
+}
+
+// Same SHA-256 the server records, so a file it already has is skipped before uploading
+async function hashFile(file: File) {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || `Request failed: ${response.status}`);
+  return data;
+}
+
+async function putChunk(uploadId: string, index: number, chunk: Blob) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetch(`/api/upload/${uploadId}/chunks/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: chunk
+      });
+      if (response.ok) return;
+      const data = await response.json().catch(() => ({}));
+      // Client errors won't succeed on a retry
+      if (response.status < 500) throw Object.assign(new Error(data.error || `Chunk rejected: ${response.status}`), { fatal: true });
+      throw new Error(data.error || `Chunk failed: ${response.status}`);
+    } catch (error) {
+      if ((error as { fatal?: boolean }).fatal || attempt >= CHUNK_RETRIES) throw error;
+      await new Promise(resolve => setTimeout(resolve, 500 * 2 ** attempt));
+    }
+  }
+}
+
+function formatSize(bytes: number) {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+export default function EventUploader({ propertyId, year }: EventUploaderProps) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [manifestStatus, setManifestStatus] = useState<string | null>(null);
+  const [onDuplicate, setOnDuplicate] = useState<DuplicatePolicy>('skip');
+  const itemsRef = useRef<Map<string, UploadItem>>(new Map());
+  const queueRef = useRef<string[]>([]);
+  const activeRef = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const update = useCallback((id: string, changes: Partial<UploadItem>) => {
+    const item = itemsRef.current.get(id);
+    if (!item) return;
+    const updated = { ...item, ...changes };
+    itemsRef.current.set(id, updated);
+    setItems(Array.from(itemsRef.current.values()));
+  }, []);
+
+  const uploadItem = useCallback(async (id: string) => {
+    let item = itemsRef.current.get(id)!;
+
+    if (!item.uploadId) {
+      update(id, { status: 'reading', error: undefined });
+      const client = await readClientMetadata(item.file);
+      const contentHash = onDuplicate === 'skip' ? await hashFile(item.file).catch(() => undefined) : undefined;
+      const session = await postJson('/api/upload', {
+        propertyId,
+        year,
+        filename: item.file.name,
+        size: item.file.size,
+        client,
+        onDuplicate,
+        contentHash
+      });
+      if (session.duplicateOf) {
+        update(id, { ...client, status: 'done', uploaded: item.file.size, key: session.key, duplicate: { action: 'skipped', key: session.duplicateOf } });
+        return;
+      }
+      update(id, {
+        ...client,
+        uploadId: session.uploadId,
+        chunkSize: session.chunkSize,
+        chunkCount: session.chunkCount,
+        nextChunk: 0
+      });
+      item = itemsRef.current.get(id)!;
+    }
+
+    update(id, { status: 'uploading', error: undefined });
+    const { uploadId, chunkSize, chunkCount } = item as Required<UploadItem>;
+    for (let index = item.nextChunk || 0; index < chunkCount; index++) {
+      const start = index * chunkSize;
+      const end = Math.min(start + chunkSize, item.file.size);
+      await putChunk(uploadId, index, item.file.slice(start, end));
+      update(id, { nextChunk: index + 1, uploaded: end });
+    }
+
+    update(id, { status: 'processing' });
+    const result = await postJson(`/api/upload/${uploadId}/complete`, {});
+    update(id, {
+      status: 'done',
+      key: result.key,
+      duplicate: result.duplicateOf && result.action !== 'stored' ? { action: result.action, key: result.duplicateOf } : undefined
+    });
+  }, [propertyId, year, onDuplicate, update]);
+
+  // Bring the event manifest up to date once everything queued has finished
+  const finishBatch = useCallback(async () => {
+    setManifestStatus('Updating event...');
+    try {
+      const result = await postJson('/api/upload/finish', { propertyId, year });
+      setManifestStatus(`Event updated: ${result.total} photos`);
+    } catch (error) {
+      console.error('Error updating event manifest:', error);
+      setManifestStatus('Photos uploaded, but the event index could not be updated');
+    }
+  }, [propertyId, year]);
+
+  const pump = useCallback(() => {
+    while (activeRef.current < FILE_CONCURRENCY && queueRef.current.length > 0) {
+      const id = queueRef.current.shift()!;
+      activeRef.current++;
+      uploadItem(id)
+        .catch(error => {
+          console.error('Upload failed:', error);
+          const message = error instanceof Error ? error.message : 'Upload failed';
+          // A session the server no longer knows about has to be started again
+          const restart = /session not found/i.test(message) ? { uploadId: undefined, nextChunk: 0, uploaded: 0 } : {};
+          update(id, { status: 'failed', error: message, ...restart });
+        })
+        .finally(() => {
+          activeRef.current--;
+          if (activeRef.current === 0 && queueRef.current.length === 0) {
+            finishBatch();
+          } else {
+            pump();
+          }
+        });
+    }
+  }, [uploadItem, update, finishBatch]);
+
+  const addFiles = useCallback((files: FileList | File[]) => {
+    const accepted = Array.from(files).filter(file => ACCEPTED_TYPES.includes(file.type));
+    for (const file of accepted) {
+      const id = `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2, 8)}`;
+      itemsRef.current.set(id, { id, file, status: 'queued', uploaded: 0 });
+      queueRef.current.push(id);
+    }
+    setItems(Array.from(itemsRef.current.values()));
+    setManifestStatus(null);
+    pump();
+  }, [pump]);
+
+  const retry = (id: string) => {
+    update(id, { status: 'queued', error: undefined });
+    queueRef.current.push(id);
+    setManifestStatus(null);
+    pump();
+  };
+
+  const retryAll = () => {
+    items.filter(item => item.status === 'failed').forEach(item => retry(item.id));
+  };
+
+  const clearFinished = () => {
+    for (const item of items) {
+      if (item.status === 'done') itemsRef.current.delete(item.id);
+    }
+    setItems(Array.from(itemsRef.current.values()));
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const duplicateCount = items.filter(item => item.duplicate).length;
+  const totalBytes = items.reduce((sum, item) => sum + item.file.size, 0);
+  const uploadedBytes = items.reduce((sum, item) => sum + item.uploaded, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Drop zone */}
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        onClick={() => inputRef.current?.click()}
+        className={`border-2 border-dashed rounded-lg p-12 text-center cursor-pointer transition-colors ${
+          dragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+        }`}
+      >
+        <p className="text-lg font-medium">Drop photos here or click to choose</p>
+        <p className="text-sm text-gray-500 mt-1">JPEG, PNG or WebP</p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_TYPES.join(',')}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        Photos already uploaded:
+        <select
+          value={onDuplicate}
+          onChange={(e) => setOnDuplicate(e.target.value as DuplicatePolicy)}
+          className="border rounded px-2 py-1"
+        >
+          <option value="skip">Skip them</option>
+          <option value="link">Link them into this event</option>
+          <option value="keep">Upload them again</option>
+        </select>
+      </label>
+
+      {items.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-4 space-y-4">
+          {/* Summary and Actions */}
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <span className="text-gray-600">
+              {doneCount} of {items.length} uploaded ({formatSize(uploadedBytes)} of {formatSize(totalBytes)})
+              {duplicateCount > 0 && <span className="text-amber-600"> · {duplicateCount} duplicates</span>}
+              {failedCount > 0 && <span className="text-red-600"> · {failedCount} failed</span>}
+            </span>
+            <div className="flex gap-2 items-center">
+              {manifestStatus && <span className="text-sm text-gray-600">{manifestStatus}</span>}
+              {failedCount > 0 && (
+                <button
+                  onClick={retryAll}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+                >
+                  Retry failed
+                </button>
+              )}
+              {doneCount > 0 && (
+                <button
+                  onClick={clearFinished}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+                >
+                  Clear finished
+                </button>
+              )}
+              <Link
+                href={`/event/${propertyId}/${year}`}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                View event
+              </Link>
+            </div>
+          </div>
+
+          {/* Per-file progress */}
+          <ul className="divide-y">
+            {items.map(item => (
+              <li key={item.id} className="py-2 flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="truncate font-medium">{item.file.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatSize(item.file.size)}
+                    {item.width && item.height && ` · ${item.width}×${item.height}`}
+                    {item.captureTime && ` · ${new Date(item.captureTime).toLocaleString()}`}
+                  </p>
+                  <div className="h-1.5 bg-gray-200 rounded mt-1 overflow-hidden">
+                    <div
+                      className={`h-full transition-all ${item.status === 'failed' ? 'bg-red-500' : item.status === 'done' ? 'bg-green-500' : 'bg-blue-500'}`}
+                      style={{ width: `${item.file.size ? Math.round((item.uploaded / item.file.size) * 100) : 0}%` }}
+                    />
+                  </div>
+                  {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+                  {item.duplicate && (
+                    <p className="text-xs text-amber-600 mt-1 truncate">Same photo as {item.duplicate.key}</p>
+                  )}
+                </div>
+                <span className="text-sm text-gray-600 w-24 text-right">
+                  {item.duplicate
+                    ? item.duplicate.action === 'linked' ? 'Linked' : 'Skipped'
+                    : item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+                </span>
+                {item.status === 'failed' && (
+                  <button
+                    onClick={() => retry(item.id)}
+                    className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+                  >
+                    Retry
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -56,7 +56,15 @@ export default async function EventPage({ params }: EventPageProps) {
       </div>
 
       {/* Gallery Component */}
-      <h1 className="text-3xl font-bold mb-6">The Archive - {year}</h1>
+      <div className="mb-6 flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold">The Archive - {year}</h1>
+        <Link
+          href={`/event/${propertyId}/${year}/upload`}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          Upload Photos
+        </Link>
+      </div>
       <EnhancedEventGallery propertyId={propertyId} year={year} />
     </div>
   )
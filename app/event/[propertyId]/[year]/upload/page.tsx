@@ -0,0 +1,32 @@
+import EventUploader from '../../../../components/EventUploader'
+import Link from 'next/link'
+
+interface UploadPageProps {
+  params: Promise<{
+    propertyId: string
+    year: string
+  }>
+}
+
+// Sign-in is enforced by middleware before this page renders
+export const dynamic = 'force-dynamic'
+
+export default async function UploadPage({ params }: UploadPageProps) {
+  const { propertyId, year } = await params
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <Link
+          href={`/event/${propertyId}/${year}`}
+          className="text-blue-600 hover:underline"
+        >
+          ← Back to Event
+        </Link>
+      </div>
+
+      <h1 className="text-3xl font-bold mb-6">Upload Photos - {year}</h1>
+      <EventUploader propertyId={propertyId} year={year} />
+    </div>
+  )
+}
@@ -33,7 +33,7 @@ export default function EventsByYear() {
 
   useEffect(() => {
     // Load property data
-    fetch('/property-data.json')
+    fetch('/api/property-data')
       .then(res => res.json())
       .then(data => {
         setProperties(data.properties)
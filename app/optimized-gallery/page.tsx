@@ -14,7 +14,6 @@ interface PaginationInfo {
   limit: number
   hasMore: boolean
   nextCursor: string | null
-  total: number
 }
 
 export default function OptimizedGallery() {
@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from 'react'
 import Image from 'next/image'
 import JSZip from 'jszip'
 import { saveAs } from 'file-saver'
+import { parseAssetKey } from '@/lib/assets'
 
 interface Photo {
   key: string
@@ -70,18 +71,16 @@ export default function PhotosPage() {
       const data = await response.json()
       
       if (data.assets) {
-        const photoData = data.assets.map((asset: any) => {
+        const photoData = data.assets.map((listed: { key: string }) => {
+          const asset = parseAssetKey(listed.key)
           const key = asset.key
-          const parts = key.split('_')
-          const status = key.includes('PICKED') ? 'picked' : 'unpicked'
-          const timestamp = parts[1] || ''
           
           return {
             key,
-            filename: asset.filename || `${key}.jpg`,
-            status,
-            timestamp,
-            date: parseTimestamp(timestamp),
+            filename: asset.filename,
+            status: asset.status,
+            timestamp: asset.timestamp || '',
+            date: asset.date,
             url: `/api/photos/image?key=${key}`,
             thumbUrl: `/api/photos/image?key=${key}&w=300&q=75`,
             mediumUrl: `/api/photos/image?key=${key}&w=800&q=85`
@@ -100,19 +99,6 @@ export default function PhotosPage() {
     }
   }
 
-  const parseTimestamp = (timestamp: string) => {
-    if (timestamp.length >= 14) {
-      const year = timestamp.substring(0, 4)
-      const month = timestamp.substring(4, 6)
-      const day = timestamp.substring(6, 8)
-      const hour = timestamp.substring(8, 10)
-      const minute = timestamp.substring(10, 12)
-      const second = timestamp.substring(12, 14)
-      return `${year}-${month}-${day} ${hour}:${minute}:${second}`
-    }
-    return timestamp
-  }
-
   const filterPhotos = () => {
     let filtered = [...photos]
 
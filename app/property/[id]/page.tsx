@@ -40,7 +40,7 @@ export default function PropertyPage({ params }: PropertyPageProps) {
       
       try {
         // Load property data - this would come from your API/storage
-        const response = await fetch('/property-data.json')
+        const response = await fetch('/api/property-data')
         const data = await response.json()
         const property = data.properties.find((p: any) => p.id === resolved.id)
         
@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react'
 import Image from 'next/image'
+import { parseAssetKey } from '@/lib/assets'
 
 interface BlobImage {
   key: string
@@ -84,7 +85,7 @@ export default function TestGallery() {
             
             {/* Show filename on hover */}
             <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-70 text-white text-xs p-1 opacity-0 group-hover:opacity-100 transition-opacity truncate z-10">
-              {image.key.split('_').pop()}
+              {parseAssetKey(image.key).name}
             </div>
           </div>
         ))}
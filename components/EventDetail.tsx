@@ -22,6 +22,21 @@ interface Asset {
   }
 }
 
+// Per-browser identifier so each visitor's rating counts once
+function getRaterId(): string {
+  const storageKey = 'dam-rater-id'
+  try {
+    let id = localStorage.getItem(storageKey)
+    if (!id) {
+      id = crypto.randomUUID()
+      localStorage.setItem(storageKey, id)
+    }
+    return id
+  } catch {
+    return 'anonymous'
+  }
+}
+
 interface EventDetailProps {
   propertyId: string
   year: string
@@ -107,13 +122,16 @@ export default function EventDetail({
       const response = await fetch('/api/update-rating', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ assetId, rating })
+        body: JSON.stringify({ assetId, rating, userId: getRaterId() })
       })
       
       if (!response.ok) throw new Error('Failed to update rating')
       
-      // Update local state would need to be handled by parent component
-      console.log('Rating updated successfully')
+      const data = await response.json()
+      setSelectedPhoto(prev => prev && prev.id === assetId
+        ? { ...prev, metadata: { ...prev.metadata, rating: data.rating } }
+        : prev
+      )
     } catch (error) {
       console.error('Failed to update rating:', error)
     }
@@ -129,7 +147,10 @@ export default function EventDetail({
       
       if (!response.ok) throw new Error('Failed to update top pick')
       
-      console.log('Top pick updated successfully')
+      setSelectedPhoto(prev => prev && prev.id === assetId
+        ? { ...prev, metadata: { ...prev.metadata, topPick: !isTopPick } }
+        : prev
+      )
     } catch (error) {
       console.error('Failed to update top pick:', error)
     }
@@ -0,0 +1,40 @@
+// Read-modify-write helpers for the metadata stored alongside photo blobs
+import { retryWithBackoff } from './concurrency'
+import { ASSET_STORAGE_NAME, CONDITIONAL_WRITE_ATTEMPTS, CONDITIONAL_WRITE_DELAY_MS, getStorage } from './storage'
+
+export type AssetMetadata = Record<string, any>
+
+// Fetch an asset's metadata, or null when the blob doesn't exist
+export async function getAssetMetadata(key: string, storeName: string = ASSET_STORAGE_NAME): Promise<AssetMetadata | null> {
+  const store = getStorage(storeName)
+  const result = await store.getMetadata(key)
+  return result ? (result.metadata as AssetMetadata) : null
+}
+
+// Merge changes into an asset's metadata. Blobs has no metadata-only write,
+// so the data is read back and re-written together with the new metadata; the
+// write only lands if the photo is unchanged since, otherwise it's redone.
+// Returns the updated metadata, or null when the blob doesn't exist.
+export async function updateAssetMetadata(
+  key: string,
+  update: (metadata: AssetMetadata) => AssetMetadata,
+  storeName: string = ASSET_STORAGE_NAME
+): Promise<AssetMetadata | null> {
+  const store = getStorage(storeName)
+  return retryWithBackoff(async () => {
+    const existing = await store.getWithMetadata(key)
+
+    if (!existing) {
+      return null
+    }
+
+    const metadata = {
+      ...update({ ...(existing.metadata as AssetMetadata) }),
+      updatedAt: new Date().toISOString()
+    }
+    if (!(await store.put(key, existing.data, { metadata, onlyIfMatch: existing.etag }))) {
+      throw new Error(`Photo ${key} changed while its metadata was being updated`)
+    }
+    return metadata
+  }, { retries: CONDITIONAL_WRITE_ATTEMPTS - 1, baseDelayMs: CONDITIONAL_WRITE_DELAY_MS })
+}
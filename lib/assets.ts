@@ -0,0 +1,136 @@
+// Asset key schema: everything the app derives from a photo's key (event, status,
+// timestamp, display name) is parsed here. Two layouts are in use:
+//   event: parties/{year}/{property}/[top|all/]{name}
+//   flat:  {name} at the store root, used for the 2025 shoot before events had folders
+// Names from the renaming script look like 2025FRED_20250807180510[_2]_UNPICKED;
+// browser uploads keep the camera's name (IMG_1234) and carry no timestamp or status.
+// The canonical form, which the key migration moves everything to, is
+//   parties/{year}/{property}/{timestamp}[_{n}]_{PICKED|UNPICKED}
+// Client-safe: no Node or Blobs imports.
+
+export type AssetLayout = 'event' | 'flat'
+export type AssetStatus = 'picked' | 'unpicked'
+export type EventSection = 'top' | 'all'
+
+export interface Asset {
+  key: string
+  layout: AssetLayout
+  year: string | null
+  // Only known for the event layout
+  propertyId: string | null
+  section: EventSection | null
+  // Last path segment, as stored (usually without an extension)
+  name: string
+  // Download name: the stored name, with .jpg added when it has no extension
+  filename: string
+  // YYYYMMDDHHmmss from the name, local time of the camera
+  timestamp: string | null
+  // Timestamp as "YYYY-MM-DD HH:mm:ss", or '' when the name has none
+  date: string
+  status: AssetStatus
+}
+
+export interface EventKey {
+  year: string
+  propertyId: string
+  section: EventSection | null
+  filename: string
+}
+
+// Years whose photos were uploaded with flat keys at the store root
+export const LEGACY_FLAT_YEARS = ['2025']
+
+// parties/{year}/{property}/[top|all/]{filename}
+const EVENT_KEY_PATTERN = /^parties\/(\d{4})\/([^/]+)\/(?:(top|all)\/)?([^/]+)$/
+const TIMESTAMP_PATTERN = /^\d{14}$/
+const CANONICAL_NAME_PATTERN = /^\d{14}(?:_\d+)?_(?:PICKED|UNPICKED)$/
+
+export function parseEventKey(key: string): EventKey | null {
+  const match = key.match(EVENT_KEY_PATTERN)
+  if (!match) return null
+  const [, year, propertyId, section, filename] = match
+  return { year, propertyId, section: (section as EventSection) || null, filename }
+}
+
+export function eventPrefix(propertyId: string, year: string): string {
+  return `parties/${year}/${propertyId}/`
+}
+
+export function buildEventKey(propertyId: string, year: string, name: string, section: EventSection | null = null): string {
+  return `${eventPrefix(propertyId, year)}${section ? `${section}/` : ''}${name}`
+}
+
+// Name in the renaming script's format: {prefix}_{timestamp}[_{sequence}]_{PICKED|UNPICKED}
+export function buildAssetName(prefix: string, timestamp: string, status: AssetStatus, sequence?: number): string {
+  return [prefix, timestamp, ...(sequence ? [String(sequence)] : []), status.toUpperCase()].join('_')
+}
+
+// parties/{year}/{property}/{timestamp}[_{n}]_{STATUS}; n tells apart frames from the same second
+export function canonicalAssetKey(
+  propertyId: string,
+  year: string,
+  timestamp: string,
+  status: AssetStatus,
+  sequence?: number
+): string {
+  const name = [timestamp, ...(sequence && sequence > 1 ? [String(sequence)] : []), status.toUpperCase()].join('_')
+  return buildEventKey(propertyId, year, name)
+}
+
+export function isCanonicalAssetKey(key: string): boolean {
+  const event = parseEventKey(key)
+  return !!event && !event.section && CANONICAL_NAME_PATTERN.test(event.filename)
+}
+
+// YYYYMMDDHHmmss from an ISO capture time, keeping the camera's local clock
+export function timestampFromCaptureTime(captureTime: string | null | undefined): string | null {
+  const digits = captureTime?.slice(0, 19).replace(/\D/g, '')
+  return digits && TIMESTAMP_PATTERN.test(digits) ? digits : null
+}
+
+export function formatKeyTimestamp(timestamp: string | null): string {
+  if (!timestamp) return ''
+  const [, year, month, day, hour, minute, second] = timestamp.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/) || []
+  return year ? `${year}-${month}-${day} ${hour}:${minute}:${second}` : ''
+}
+
+// Capture time in the same offset-less ISO form as EXIF-derived times
+export function keyTimestampToIso(timestamp: string | null): string | null {
+  const formatted = formatKeyTimestamp(timestamp)
+  return formatted ? formatted.replace(' ', 'T') : null
+}
+
+export function parseAssetKey(key: string): Asset {
+  const event = parseEventKey(key)
+  const name = event ? event.filename : key.split('/').pop() || key
+  const tokens = name.replace(/\.[a-z0-9]{2,4}$/i, '').split('_')
+  const timestamp = tokens.find(token => TIMESTAMP_PATTERN.test(token)) || null
+  const flatYear = timestamp ? timestamp.slice(0, 4) : name.match(/^(\d{4})/)?.[1] || null
+
+  return {
+    key,
+    layout: event ? 'event' : 'flat',
+    year: event ? event.year : flatYear,
+    propertyId: event ? event.propertyId : null,
+    section: event ? event.section : null,
+    name,
+    filename: /\.[a-z0-9]{2,4}$/i.test(name) ? name : `${name}.jpg`,
+    timestamp,
+    date: formatKeyTimestamp(timestamp),
+    // UNPICKED contains PICKED, so match the whole token
+    status: tokens.includes('PICKED') || event?.section === 'top' ? 'picked' : 'unpicked'
+  }
+}
+
+// Prefix to list for an event's photos; flat years have to be listed from the root
+export function eventListPrefix(propertyId: string, year: string): string {
+  return LEGACY_FLAT_YEARS.includes(year) ? '' : eventPrefix(propertyId, year)
+}
+
+// Whether a listed asset belongs to the event, for listings that cover more than it
+export function isEventAsset(asset: Asset, propertyId: string, year: string): boolean {
+  if (asset.layout === 'event') {
+    return asset.year === year && asset.propertyId === propertyId
+  }
+  return LEGACY_FLAT_YEARS.includes(year) && asset.year === year
+}
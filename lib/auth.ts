@@ -0,0 +1,82 @@
+// Password-protected sessions for editing features such as uploads. The password comes
+// from UPLOAD_PASSWORD; a successful login gets an HMAC-signed, expiring cookie.
+// Uses Web Crypto only, so it also runs in middleware.
+
+export const SESSION_COOKIE = 'dam-session'
+
+export const SESSION_TTL_SECONDS = 12 * 60 * 60
+
+const encoder = new TextEncoder()
+
+function base64url(bytes: ArrayBuffer): string {
+  let binary = ''
+  new Uint8Array(bytes).forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Signing secret; UPLOAD_SESSION_SECRET lets the password be rotated without it
+function sessionSecret(): string | null {
+  return process.env.UPLOAD_SESSION_SECRET || process.env.UPLOAD_PASSWORD || null
+}
+
+async function sign(value: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return base64url(await crypto.subtle.sign('HMAC', key, encoder.encode(value)))
+}
+
+// Compare digests rather than the strings themselves so timing doesn't leak a prefix match
+async function safeEqual(a: string, b: string): Promise<boolean> {
+  const [digestA, digestB] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(a)),
+    crypto.subtle.digest('SHA-256', encoder.encode(b))
+  ])
+  const bytesA = new Uint8Array(digestA)
+  const bytesB = new Uint8Array(digestB)
+  let difference = 0
+  for (let i = 0; i < bytesA.length; i++) {
+    difference |= bytesA[i] ^ bytesB[i]
+  }
+  return difference === 0
+}
+
+// Logins are refused outright until a password is configured
+export function isAuthConfigured(): boolean {
+  return Boolean(process.env.UPLOAD_PASSWORD)
+}
+
+export async function checkPassword(password: string): Promise<boolean> {
+  const expected = process.env.UPLOAD_PASSWORD
+  return Boolean(expected) && (await safeEqual(password, expected as string))
+}
+
+// "{expiresAt}.{signature}"
+export async function createSessionToken(now: number = Date.now()): Promise<string> {
+  const secret = sessionSecret()
+  if (!secret) throw new Error('UPLOAD_PASSWORD is not configured')
+  const expiresAt = String(Math.floor(now / 1000) + SESSION_TTL_SECONDS)
+  return `${expiresAt}.${await sign(expiresAt, secret)}`
+}
+
+export async function verifySessionToken(token: string | undefined, now: number = Date.now()): Promise<boolean> {
+  const secret = sessionSecret()
+  if (!token || !secret) return false
+
+  const [expiresAt, signature] = token.split('.')
+  if (!expiresAt || !signature || !/^\d+$/.test(expiresAt)) return false
+  if (parseInt(expiresAt, 10) * 1000 <= now) return false
+
+  return safeEqual(signature, await sign(expiresAt, secret))
+}
+
+// Anything with a cookie jar: NextRequest, or the cookies() store in route handlers
+export async function isAuthenticated(source: { cookies: { get(name: string): { value: string } | undefined } }): Promise<boolean> {
+  return verifySessionToken(source.cookies.get(SESSION_COOKIE)?.value)
+}
@@ -0,0 +1,86 @@
+// Burst detection for culling: consecutive frames that look alike (perceptual hash distance)
+// and were taken close together (capture time) are grouped, best-rated frame first
+import { hammingDistance } from './perceptualHash'
+
+export interface BurstFrame {
+  key: string
+  captureTime: string | null
+  perceptualHash: string | null
+  rating: number
+  topPick: boolean
+}
+
+export interface Burst {
+  // Best frame in the burst, shown on top of the stack
+  cover: string
+  // Every frame, best first
+  keys: string[]
+  startTime: string | null
+  endTime: string | null
+}
+
+export interface BurstOptions {
+  // Largest hash distance (of 64 bits) between neighbouring frames in a burst
+  maxDistance: number
+  // Largest gap between neighbouring frames, when both have a capture time
+  maxGapSeconds: number
+}
+
+export const DEFAULT_BURST_OPTIONS: BurstOptions = { maxDistance: 10, maxGapSeconds: 10 }
+
+function captureMillis(frame: BurstFrame): number | null {
+  if (!frame.captureTime) return null
+  const time = new Date(frame.captureTime).getTime()
+  return Number.isNaN(time) ? null : time
+}
+
+// Capture order; frames without a time fall back to key order, which follows the
+// camera's file numbering
+function compareCaptureOrder(a: BurstFrame, b: BurstFrame): number {
+  const timeA = captureMillis(a)
+  const timeB = captureMillis(b)
+  if (timeA !== null && timeB !== null && timeA !== timeB) return timeA - timeB
+  return a.key.localeCompare(b.key)
+}
+
+// Highest rating, then top picks, then the earliest frame
+function compareBest(a: BurstFrame, b: BurstFrame): number {
+  return b.rating - a.rating || Number(b.topPick) - Number(a.topPick) || compareCaptureOrder(a, b)
+}
+
+function continuesBurst(previous: BurstFrame, frame: BurstFrame, options: BurstOptions): boolean {
+  if (!previous.perceptualHash || !frame.perceptualHash) return false
+  if (hammingDistance(previous.perceptualHash, frame.perceptualHash) > options.maxDistance) return false
+
+  const before = captureMillis(previous)
+  const after = captureMillis(frame)
+  return before === null || after === null || after - before <= options.maxGapSeconds * 1000
+}
+
+// Bursts of two or more frames. Each frame is compared with the one taken just before it,
+// so a slow pan still chains into one burst.
+export function clusterBursts(frames: BurstFrame[], options: BurstOptions = DEFAULT_BURST_OPTIONS): Burst[] {
+  const ordered = [...frames].sort(compareCaptureOrder)
+  const runs: BurstFrame[][] = []
+
+  for (const frame of ordered) {
+    const run = runs[runs.length - 1]
+    if (run && continuesBurst(run[run.length - 1], frame, options)) {
+      run.push(frame)
+    } else {
+      runs.push([frame])
+    }
+  }
+
+  return runs
+    .filter(run => run.length > 1)
+    .map(run => {
+      const best = [...run].sort(compareBest)
+      return {
+        cover: best[0].key,
+        keys: best.map(frame => frame.key),
+        startTime: run[0].captureTime,
+        endTime: run[run.length - 1].captureTime
+      }
+    })
+}
@@ -0,0 +1,40 @@
+// Run an async mapper over items with at most `limit` calls in flight, preserving order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await mapper(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+// Retry a failing call with exponential backoff and jitter: ~baseDelayMs, 2x, 4x, ...
+export async function retryWithBackoff<T>(
+  fn: (attempt: number) => Promise<T>,
+  { retries, baseDelayMs = 500, onRetry }: {
+    retries: number
+    baseDelayMs?: number
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+  }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (error) {
+      if (attempt >= retries) throw error
+      const delayMs = Math.round(baseDelayMs * 2 ** attempt * (0.5 + Math.random()))
+      onRetry?.(error, attempt + 1, delayMs)
+      await new Promise(resolve => setTimeout(resolve, delayMs))
+    }
+  }
+}
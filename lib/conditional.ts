@@ -0,0 +1,63 @@
+// ETag / Last-Modified helpers for conditional GETs on blob-backed responses
+import { createHash } from 'crypto'
+
+// Strip quotes and any weak prefix from a blob or header etag
+export function bareEtag(etag: string): string {
+  return etag.trim().replace(/^W\//, '').replace(/"/g, '')
+}
+
+// Strong ETag for a stored blob, optionally scoped to a derived representation
+// (a resized or transcoded variant) so each one revalidates independently
+export function buildEtag(blobEtag: string, variant?: string): string {
+  const base = bareEtag(blobEtag)
+  if (!variant) return `"${base}"`
+  const suffix = createHash('sha1').update(variant).digest('hex').slice(0, 12)
+  return `"${base}-${suffix}"`
+}
+
+// Last write time recorded in blob metadata, if any
+export function lastModifiedFrom(metadata: Record<string, any> | undefined): Date | null {
+  const value = metadata?.updatedAt || metadata?.uploadedAt || metadata?.createdAt
+  if (typeof value !== 'string') return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// RFC 9110 evaluation for GET: If-None-Match wins over If-Modified-Since when both are sent
+export function isNotModified(headers: Headers, etag: string, lastModified: Date | null): boolean {
+  const ifNoneMatch = headers.get('if-none-match')
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === '*') return true
+    const target = bareEtag(etag)
+    return ifNoneMatch.split(',').some(candidate => bareEtag(candidate) === target)
+  }
+
+  const ifModifiedSince = headers.get('if-modified-since')
+  if (ifModifiedSince && lastModified) {
+    const since = new Date(ifModifiedSince).getTime()
+    // HTTP dates have one-second resolution
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since
+  }
+
+  return false
+}
+
+// Validators and caching policy shared by full, partial and 304 blob responses.
+// Browsers revalidate hourly and the CDN serves stale while it revalidates, so an
+// overwritten blob (new etag) shows up without a manual purge.
+export function cacheHeaders(key: string, etag: string, lastModified: Date | null): Record<string, string> {
+  const isDev = process.env.NODE_ENV !== 'production'
+
+  return {
+    ...(isDev
+      ? { 'Cache-Control': 'no-store' }
+      : {
+          'Cache-Control': 'public, max-age=3600, must-revalidate',
+          'Netlify-CDN-Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+        }),
+    'Netlify-Cache-Tag': key,
+    'ETag': etag,
+    ...(lastModified ? { 'Last-Modified': lastModified.toUTCString() } : {}),
+    'Vary': 'Accept',
+  }
+}
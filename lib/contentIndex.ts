@@ -0,0 +1,187 @@
+// Content-hash deduplication. Every stored photo is indexed by the SHA-256 of its bytes
+// (`{storage}/{hash}` -> key) so an upload of the same file under another name is caught
+// before it is written. Duplicates are either skipped or stored as a link: an empty blob
+// carrying its own metadata plus `linkedTo`, the key that holds the bytes.
+import { createHash } from 'crypto'
+import { mapWithConcurrency } from './concurrency'
+import { toImageBuffer } from './imageTransform'
+import { getKeyRedirect } from './keyRedirects'
+import { BlobStorage, getStorage } from './storage'
+
+export const CONTENT_INDEX_STORE = 'content-index'
+
+// skip: don't store the duplicate; link: store a link to the existing photo; keep: store it anyway
+export type DuplicatePolicy = 'skip' | 'link' | 'keep'
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['skip', 'link', 'keep']
+
+export interface ContentIndexEntry {
+  contentHash: string
+  key: string
+  updatedAt: string
+}
+
+export interface DuplicateCopy {
+  key: string
+  originalFilename: string | null
+  uploadedAt: string | null
+  // Set on links, which share the bytes of another key
+  linkedTo: string | null
+}
+
+export interface DuplicateGroup {
+  contentHash: string
+  size: number | null
+  copies: DuplicateCopy[]
+  // Bytes stored more than once (links don't count)
+  wastedBytes: number
+}
+
+export interface DuplicateReport {
+  prefix: string
+  scanned: number
+  // Blobs without a content hash in their metadata, left out of the groups
+  unhashed: number
+  groups: DuplicateGroup[]
+  wastedBytes: number
+}
+
+export function contentHash(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+export function getContentIndexStore(): BlobStorage {
+  return getStorage(CONTENT_INDEX_STORE)
+}
+
+function indexKey(storeName: string, hash: string): string {
+  return `${storeName}/${hash}`
+}
+
+export function isDuplicatePolicy(value: unknown): value is DuplicatePolicy {
+  return typeof value === 'string' && DUPLICATE_POLICIES.includes(value as DuplicatePolicy)
+}
+
+export function linkTarget(metadata: Record<string, unknown> | undefined): string | null {
+  return typeof metadata?.linkedTo === 'string' ? metadata.linkedTo : null
+}
+
+// Key already holding these bytes, if any. Index entries whose blob has since been
+// deleted or replaced are ignored.
+export async function findByContentHash(
+  index: BlobStorage,
+  store: BlobStorage,
+  hash: string
+): Promise<string | null> {
+  const entry = (await index.get(indexKey(store.name, hash), { type: 'json' })) as ContentIndexEntry | null
+  if (!entry) return null
+
+  const head = await store.getMetadata(entry.key)
+  if (!head || linkTarget(head.metadata) || head.metadata.contentHash !== hash) return null
+  return entry.key
+}
+
+export async function recordContentHash(index: BlobStorage, store: BlobStorage, hash: string, key: string): Promise<void> {
+  const entry: ContentIndexEntry = { contentHash: hash, key, updatedAt: new Date().toISOString() }
+  await index.putJSON(indexKey(store.name, hash), entry)
+}
+
+// A link's target, following the key migration's redirect when the target has moved:
+// links outside the migrated keys still point at the old key
+async function linkTargetHead(store: BlobStorage, target: string) {
+  const head = await store.getMetadata(target)
+  if (head) return { key: target, ...head }
+
+  const redirect = await getKeyRedirect(store.name, target)
+  const movedHead = redirect ? await store.getMetadata(redirect.to) : null
+  return redirect && movedHead ? { key: redirect.to, ...movedHead } : null
+}
+
+// Key whose blob holds the bytes for `key`: the link target for links, otherwise the key itself
+export async function resolveLinkedKey(store: BlobStorage, key: string): Promise<string> {
+  const head = await store.getMetadata(key)
+  const target = linkTarget(head?.metadata)
+  if (!target) return key
+  return (await linkTargetHead(store, target))?.key ?? target
+}
+
+// Metadata lookup that follows links, so callers get the etag and metadata of the blob
+// they will actually read. Returns null when either end is missing.
+export async function getLinkedMetadata(store: BlobStorage, key: string) {
+  const head = await store.getMetadata(key)
+  if (!head) return null
+
+  const target = linkTarget(head.metadata)
+  if (!target) return { key, ...head }
+
+  return linkTargetHead(store, target)
+}
+
+// Group the blobs under `prefix` by content hash. Blobs uploaded before hashes were
+// recorded are downloaded and hashed when `hashMissing` is set, otherwise counted as unhashed.
+export async function findDuplicateGroups(
+  store: BlobStorage,
+  prefix: string,
+  { hashMissing = false, concurrency = 8 }: { hashMissing?: boolean; concurrency?: number } = {}
+): Promise<DuplicateReport> {
+  const keys = (await store.list(prefix)).map(blob => blob.key)
+
+  const heads = await mapWithConcurrency(keys, concurrency, async key => {
+    const head = await store.getMetadata(key)
+    if (!head) return null
+
+    const metadata = head.metadata
+    let hash = typeof metadata.contentHash === 'string' ? metadata.contentHash : null
+    let size = typeof metadata.size === 'number' ? metadata.size : null
+    if (!hash && hashMissing && !linkTarget(metadata)) {
+      const data = await store.get(key, { type: 'arrayBuffer' })
+      if (data) {
+        const buffer = toImageBuffer(data)
+        hash = contentHash(buffer)
+        size = buffer.length
+      }
+    }
+
+    const copy: DuplicateCopy = {
+      key,
+      originalFilename: typeof metadata.originalFilename === 'string' ? metadata.originalFilename : null,
+      uploadedAt: typeof metadata.uploadedAt === 'string' ? metadata.uploadedAt : null,
+      linkedTo: linkTarget(metadata)
+    }
+    return { hash, size, copy }
+  })
+
+  const byHash = new Map<string, { size: number | null; copies: DuplicateCopy[] }>()
+  let unhashed = 0
+  for (const head of heads) {
+    if (!head) continue
+    if (!head.hash) {
+      unhashed++
+      continue
+    }
+    const group = byHash.get(head.hash) || { size: head.size, copies: [] }
+    group.copies.push(head.copy)
+    byHash.set(head.hash, group)
+  }
+
+  const groups: DuplicateGroup[] = []
+  byHash.forEach(({ size, copies }, hash) => {
+    if (copies.length < 2) return
+    const stored = copies.filter(copy => !copy.linkedTo).length
+    groups.push({
+      contentHash: hash,
+      size,
+      copies: copies.sort((a, b) => (a.uploadedAt || '').localeCompare(b.uploadedAt || '')),
+      wastedBytes: size !== null ? size * Math.max(stored - 1, 0) : 0
+    })
+  })
+  groups.sort((a, b) => b.wastedBytes - a.wastedBytes || a.copies[0].key.localeCompare(b.copies[0].key))
+
+  return {
+    prefix,
+    scanned: keys.length,
+    unhashed,
+    groups,
+    wastedBytes: groups.reduce((sum, group) => sum + group.wastedBytes, 0)
+  }
+}
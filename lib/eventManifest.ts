@@ -0,0 +1,229 @@
+// Per-event manifest: one JSON blob summarising every photo in parties/{year}/{property}/,
+// so the events API can answer with a single read instead of one getMetadata per photo
+import { AssetMetadata } from './assetMetadata'
+import { eventPrefix, keyTimestampToIso, parseAssetKey, parseEventKey } from './assets'
+import { mapWithConcurrency, retryWithBackoff } from './concurrency'
+import { bareEtag } from './conditional'
+import { getRatingSummary, RatingSummary } from './ratings'
+import { ASSET_STORAGE_NAME, CONDITIONAL_WRITE_ATTEMPTS, CONDITIONAL_WRITE_DELAY_MS, getStorage } from './storage'
+import { getTagIndex } from './tags'
+
+export const MANIFEST_STORE_NAME = 'event-manifests'
+
+const METADATA_CONCURRENCY = 10
+
+export interface ManifestEntry {
+  key: string
+  // Etag of the photo blob the entry was read from; reconciliation re-reads entries whose
+  // photo was replaced under the same key
+  etag?: string
+  width?: number
+  height?: number
+  captureTime: string | null
+  perceptualHash?: string
+  rating: number
+  ratingCount: number
+  tags: string[]
+  topPick: boolean
+}
+
+export interface EventManifest {
+  propertyId: string
+  year: string
+  // Storage the photos live in; absent on manifests written before other stores were supported
+  storeName?: string
+  generatedAt: string
+  updatedAt: string
+  assets: ManifestEntry[]
+}
+
+// Manifests for the default asset storage keep the unprefixed keys first used for
+// property-assets; loading reconciles them with the merged listing
+function manifestKey(propertyId: string, year: string, storeName: string): string {
+  return storeName === ASSET_STORAGE_NAME ? `${propertyId}/${year}` : `${storeName}/${propertyId}/${year}`
+}
+
+// Ratings live in their own store; without a summary the photo's own (pre-store) fields are used
+export function toManifestEntry(
+  key: string,
+  metadata: AssetMetadata | null,
+  tags: string[] = [],
+  ratings?: RatingSummary,
+  etag?: string
+): ManifestEntry {
+  const asset = parseAssetKey(key)
+  const topPick = typeof metadata?.topPick === 'boolean' ? metadata.topPick : asset.section === 'top'
+  return {
+    key,
+    etag,
+    width: metadata?.width,
+    height: metadata?.height,
+    // Photos uploaded without metadata fall back to the timestamp in their name
+    captureTime: metadata?.captureTime || keyTimestampToIso(asset.timestamp),
+    perceptualHash: metadata?.perceptualHash || undefined,
+    rating: ratings?.rating ?? (metadata?.rating || 0),
+    ratingCount: ratings?.ratingCount ?? (metadata?.ratingCount || 0),
+    tags,
+    topPick
+  }
+}
+
+export async function getEventManifest(
+  propertyId: string,
+  year: string,
+  storeName: string = ASSET_STORAGE_NAME
+): Promise<EventManifest | null> {
+  const manifest = (await getStorage(MANIFEST_STORE_NAME).get(manifestKey(propertyId, year, storeName), { type: 'json' })) as EventManifest | null
+  return manifest?.assets ? manifest : null
+}
+
+async function saveEventManifest(manifest: EventManifest, storeName: string): Promise<void> {
+  manifest.updatedAt = new Date().toISOString()
+  await getStorage(MANIFEST_STORE_NAME).putJSON(manifestKey(manifest.propertyId, manifest.year, storeName), manifest)
+}
+
+// Read-modify-write of an existing manifest. The write only lands if nobody else wrote the
+// manifest since it was read, otherwise the change is reapplied to the newer copy. `change`
+// returns false to leave the manifest as it is; returns null when there's no manifest.
+async function modifyEventManifest(
+  propertyId: string,
+  year: string,
+  storeName: string,
+  change: (manifest: EventManifest) => boolean
+): Promise<EventManifest | null> {
+  const store = getStorage(MANIFEST_STORE_NAME)
+  const key = manifestKey(propertyId, year, storeName)
+  return retryWithBackoff(async () => {
+    const existing = await store.getWithMetadata(key)
+    const manifest = existing ? (JSON.parse(new TextDecoder().decode(existing.data)) as EventManifest) : null
+    if (!manifest?.assets || !change(manifest)) return manifest?.assets ? manifest : null
+
+    manifest.updatedAt = new Date().toISOString()
+    if (!(await store.putJSON(key, manifest, { onlyIfMatch: existing!.etag }))) {
+      throw new Error(`Manifest ${key} changed while it was being updated`)
+    }
+    return manifest
+  }, { retries: CONDITIONAL_WRITE_ATTEMPTS - 1, baseDelayMs: CONDITIONAL_WRITE_DELAY_MS })
+}
+
+// Tags for many assets come from the tag index in one read
+async function tagsByAsset(): Promise<Map<string, string[]>> {
+  const index = await getTagIndex()
+  const byAsset = new Map<string, string[]>()
+  for (const [tag, keys] of Object.entries(index.tags)) {
+    for (const key of keys) {
+      byAsset.set(key, [...(byAsset.get(key) || []), tag])
+    }
+  }
+  return byAsset
+}
+
+async function buildEntries(keys: string[], storeName: string): Promise<ManifestEntry[]> {
+  const assetStore = getStorage(storeName)
+  const tags = await tagsByAsset()
+  return mapWithConcurrency(keys, METADATA_CONCURRENCY, async key => {
+    const result = await assetStore.getMetadata(key)
+    const metadata = (result?.metadata as AssetMetadata | undefined) || null
+    return toManifestEntry(key, metadata, tags.get(key) || [], await getRatingSummary(key, metadata), result?.etag)
+  })
+}
+
+// Build the manifest from scratch by reading every photo's metadata
+export async function rebuildEventManifest(
+  propertyId: string,
+  year: string,
+  storeName: string = ASSET_STORAGE_NAME
+): Promise<EventManifest> {
+  const blobs = await getStorage(storeName).list(eventPrefix(propertyId, year))
+  const now = new Date().toISOString()
+  const manifest: EventManifest = {
+    propertyId,
+    year,
+    storeName,
+    generatedAt: now,
+    updatedAt: now,
+    assets: await buildEntries(blobs.map(blob => blob.key), storeName)
+  }
+  await saveEventManifest(manifest, storeName)
+  return manifest
+}
+
+// Return the manifest, reconciling it against a key listing (cheap: no per-photo reads).
+// Photos added since the last write, and photos replaced under the same key (their etag
+// changed), have their metadata fetched; removed ones are dropped.
+export async function loadEventManifest(
+  propertyId: string,
+  year: string,
+  storeName: string = ASSET_STORAGE_NAME
+): Promise<EventManifest> {
+  const manifest = await getEventManifest(propertyId, year, storeName)
+  if (!manifest) {
+    return rebuildEventManifest(propertyId, year, storeName)
+  }
+
+  const blobs = await getStorage(storeName).list(eventPrefix(propertyId, year))
+  const listed = new Map(blobs.map(blob => [blob.key, blob.etag]))
+  const known = new Map(manifest.assets.map(entry => [entry.key, entry.etag]))
+  // Listings and reads quote etags differently. Entries written before etags were
+  // recorded are refreshed once.
+  const stale = Array.from(listed)
+    .filter(([key, etag]) => !known.has(key) || bareEtag(known.get(key) || '') !== bareEtag(etag || ''))
+    .map(([key]) => key)
+  const removed = manifest.assets.some(entry => !listed.has(entry.key))
+
+  if (stale.length === 0 && !removed) {
+    return manifest
+  }
+
+  const refreshed = new Map((await buildEntries(stale, storeName)).map(entry => [entry.key, entry]))
+  const updated = await modifyEventManifest(propertyId, year, storeName, current => {
+    current.assets = [
+      ...current.assets.filter(entry => listed.has(entry.key) && !refreshed.has(entry.key)),
+      ...refreshed.values()
+    ]
+    return true
+  })
+  return updated ?? rebuildEventManifest(propertyId, year, storeName)
+}
+
+// Apply an edit to one photo's entry. Keys outside parties/{year}/{property}/ and events
+// without a manifest yet are ignored; the next load builds those from scratch.
+export async function updateManifestEntry(
+  key: string,
+  update: (entry: ManifestEntry) => ManifestEntry | null,
+  storeName: string = ASSET_STORAGE_NAME
+): Promise<void> {
+  const event = parseEventKey(key)
+  if (!event) return
+
+  await modifyEventManifest(event.propertyId, event.year, storeName, manifest => {
+    const existing = manifest.assets.find(entry => entry.key === key) || toManifestEntry(key, null)
+    const updated = update(existing)
+    manifest.assets = manifest.assets.filter(entry => entry.key !== key)
+    if (updated) {
+      manifest.assets.push(updated)
+    }
+    return true
+  })
+}
+
+// Merge fields into several entries with one write, e.g. values worked out after the
+// manifest was built. Entries that have since been removed are skipped, and so are entries
+// whose photo was replaced when the change carries the etag it was worked out from.
+export async function mergeManifestEntries(
+  propertyId: string,
+  year: string,
+  changes: Map<string, Partial<ManifestEntry>>,
+  storeName: string = ASSET_STORAGE_NAME
+): Promise<void> {
+  if (changes.size === 0) return
+
+  await modifyEventManifest(propertyId, year, storeName, manifest => {
+    manifest.assets = manifest.assets.map(entry => {
+      const change = changes.get(entry.key)
+      if (!change || (change.etag !== undefined && change.etag !== entry.etag)) return entry
+      return { ...entry, ...change }
+    })
+    return true
+  })
+}
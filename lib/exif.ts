@@ -0,0 +1,130 @@
+// Server-side EXIF extraction that reads only the start of a blob, not the whole photo
+import ExifReader from 'exifreader'
+
+export interface PhotoMetadata {
+  DateTimeOriginal?: string
+  // UTC offset of DateTimeOriginal, e.g. "+10:00"
+  OffsetTimeOriginal?: string
+  Make?: string
+  Model?: string
+  LensModel?: string
+  ISO?: number
+  FNumber?: number
+  ExposureTime?: string
+  FocalLength?: number
+}
+
+// JPEG metadata segments come before the image data; this is plenty for EXIF + XMP
+const MAX_HEADER_BYTES = 256 * 1024
+
+// Offset of the JPEG start-of-scan marker (where metadata ends), or null if not reached yet
+function jpegMetadataEnd(buffer: Buffer): number | null {
+  let offset = 2
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return offset
+    const marker = buffer[offset + 1]
+    if (marker === 0xda) return offset
+    offset += 2 + buffer.readUInt16BE(offset + 2)
+  }
+  return null
+}
+
+function isBase64Text(buffer: Buffer): boolean {
+  return /^[A-Za-z0-9+/=\s]+$/.test(buffer.subarray(0, 64).toString('latin1'))
+}
+
+// Read the leading bytes of an image stream, stopping once the JPEG metadata is complete.
+// Legacy uploads stored as base64 text are decoded as they're read.
+export async function readImageHeader(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const reader = stream.getReader()
+  const chunks: Buffer[] = []
+  let base64: boolean | null = null
+  let header: Buffer = Buffer.alloc(0)
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) return header
+      chunks.push(Buffer.from(value))
+
+      const raw = Buffer.concat(chunks)
+      if (base64 === null) {
+        base64 = !(raw[0] === 0xff && raw[1] === 0xd8) && isBase64Text(raw)
+      }
+      header = base64 ? decodeBase64Prefix(raw) : raw
+
+      if (header[0] === 0xff && header[1] === 0xd8) {
+        const end = jpegMetadataEnd(header)
+        if (end !== null) return header.subarray(0, end)
+      }
+      if (header.length >= MAX_HEADER_BYTES) return header
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined)
+  }
+}
+
+// Decode as much of a base64 prefix as forms whole 4-character groups
+function decodeBase64Prefix(raw: Buffer): Buffer {
+  const text = raw.toString('latin1').replace(/\s+/g, '')
+  return Buffer.from(text.slice(0, text.length - (text.length % 4)), 'base64')
+}
+
+// EXIF rationals arrive as [numerator, denominator]
+function numericValue(value: unknown): number | undefined {
+  if (typeof value === 'number') return value
+  if (Array.isArray(value)) {
+    const [first] = value
+    if (Array.isArray(first) && first.length === 2 && first[1]) return first[0] / first[1]
+    if (value.length === 2 && typeof value[0] === 'number' && typeof value[1] === 'number' && value[1]) {
+      return value[0] / value[1]
+    }
+    if (typeof first === 'number') return first
+  }
+  return undefined
+}
+
+// Camera, lens and exposure details from an image header; empty when there's no EXIF.
+// Also used in the browser, with the start of a File read as an ArrayBuffer.
+export function extractPhotoMetadata(header: Buffer | ArrayBuffer): PhotoMetadata {
+  let tags: ExifReader.Tags
+  try {
+    tags = ExifReader.load(header)
+  } catch {
+    return {}
+  }
+
+  const metadata: PhotoMetadata = {}
+  const description = (name: string) => {
+    const tag = tags[name] as { description?: string } | undefined
+    return tag?.description?.trim() || undefined
+  }
+  const value = (name: string) => numericValue((tags[name] as { value?: unknown } | undefined)?.value)
+
+  metadata.DateTimeOriginal = description('DateTimeOriginal')
+  metadata.OffsetTimeOriginal = description('OffsetTimeOriginal')
+  metadata.Make = description('Make')
+  metadata.Model = description('Model')
+  metadata.LensModel = description('LensModel')
+  metadata.ISO = value('ISOSpeedRatings')
+  metadata.FNumber = value('FNumber')
+  metadata.ExposureTime = description('ExposureTime')
+  metadata.FocalLength = value('FocalLength')
+
+  // Drop fields the camera didn't record
+  for (const field of Object.keys(metadata) as (keyof PhotoMetadata)[]) {
+    if (metadata[field] === undefined) delete metadata[field]
+  }
+  return metadata
+}
+
+// EXIF dates look like "2024:07:04 20:15:00". Returns an ISO 8601 string, with the
+// offset when the camera recorded one and as local wall-clock time otherwise.
+export function exifDateToIso(dateTime: string | undefined, offset?: string): string | null {
+  const match = dateTime?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/)
+  if (!match) return null
+  const [, year, month, day, hour, minute, second] = match
+  if (year === '0000') return null
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : ''
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`
+}
@@ -0,0 +1,166 @@
+// Builds ZIP exports of event photos straight from blob storage
+import { parseAssetKey } from './assets'
+import { resolveLinkedKey } from './contentIndex'
+import { loadEventManifest } from './eventManifest'
+import { toImageBuffer } from './imageTransform'
+import { getPropertyData } from './propertyData'
+import { BlobStorage, getStorage } from './storage'
+import { uniqueNamer, ZipEntry } from './zipStream'
+
+// An explicit key list, one event (propertyId + year) or, with only a year,
+// that year's events across every property
+export interface ExportSelection {
+  storeName: string
+  keys?: string[]
+  propertyId?: string
+  year?: string
+  topOnly?: boolean
+}
+
+export interface ExportItem {
+  key: string
+  // Path inside the archive, unique across the export
+  filename: string
+  captureTime: string | null
+  rating: number | null
+  topPick: boolean | null
+  tags: string[]
+}
+
+export type ExportStatus = 'included' | 'missing'
+
+// Photos are stored without extensions by the upload scripts; they're all JPEGs
+export function archiveFilename(key: string): string {
+  return parseAssetKey(key).filename
+}
+
+export function archiveName(selection: ExportSelection): string {
+  const suffix = `${selection.topOnly ? '-top-picks' : ''}-photos.zip`
+  if (selection.propertyId && selection.year) {
+    return `${selection.propertyId}-${selection.year}${suffix}`
+  }
+  if (selection.year) {
+    return `${selection.year}${suffix}`
+  }
+  return 'photos.zip'
+}
+
+const MANIFEST_NAME = 'manifest.csv'
+
+type UnnamedItem = Omit<ExportItem, 'filename'>
+
+// Give every item a unique archive path, optionally inside a per-property folder
+function assignFilenames(items: { item: UnnamedItem; folder?: string }[]): ExportItem[] {
+  const nameFor = uniqueNamer()
+  nameFor(MANIFEST_NAME)
+  return items.map(({ item, folder }) => ({
+    ...item,
+    filename: nameFor(folder ? `${folder}/${archiveFilename(item.key)}` : archiveFilename(item.key))
+  }))
+}
+
+// Photos of one event from its manifest; top/ copies that mirror a photo already
+// in the event are left out
+async function eventItems(
+  storeName: string,
+  propertyId: string,
+  year: string,
+  topOnly?: boolean
+): Promise<UnnamedItem[]> {
+  const manifest = await loadEventManifest(propertyId, year, storeName)
+  const assets = new Map(manifest.assets.map(entry => [entry.key, parseAssetKey(entry.key)]))
+  const isTopCopy = (key: string) => assets.get(key)?.section === 'top'
+  const outsideTop = new Set(
+    manifest.assets.filter(entry => !isTopCopy(entry.key)).map(entry => assets.get(entry.key)!.name)
+  )
+
+  return manifest.assets
+    .filter(entry => !isTopCopy(entry.key) || !outsideTop.has(assets.get(entry.key)!.name))
+    .filter(entry => !topOnly || entry.topPick)
+    .sort((a, b) => (a.captureTime || a.key).localeCompare(b.captureTime || b.key))
+    .map(entry => ({
+      key: entry.key,
+      captureTime: entry.captureTime,
+      rating: entry.rating,
+      topPick: entry.topPick,
+      tags: entry.tags
+    }))
+}
+
+// Expand a selection into the photos to export, with their archive paths
+export async function resolveExportItems(selection: ExportSelection): Promise<ExportItem[]> {
+  if (selection.keys) {
+    return assignFilenames(
+      selection.keys.map(key => ({ item: { key, captureTime: null, rating: null, topPick: null, tags: [] } }))
+    )
+  }
+
+  if (!selection.year) {
+    return []
+  }
+
+  if (selection.propertyId) {
+    const items = await eventItems(selection.storeName, selection.propertyId, selection.year, selection.topOnly)
+    return assignFilenames(items.map(item => ({ item })))
+  }
+
+  // A whole year: every property with a party that year, each in its own folder
+  const year = parseInt(selection.year, 10)
+  const { properties } = await getPropertyData()
+  const withParty = properties.filter(property => property.events?.parties?.some(party => party.year === year))
+  const items: { item: UnnamedItem; folder: string }[] = []
+  for (const property of withParty) {
+    const propertyItems = await eventItems(selection.storeName, property.id, selection.year, selection.topOnly)
+    items.push(...propertyItems.map(item => ({ item, folder: property.id })))
+  }
+  return assignFilenames(items)
+}
+
+function csvValue(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function manifestCsv(rows: { item: ExportItem; status: ExportStatus }[]): string {
+  const header = ['filename', 'key', 'status', 'captureTime', 'rating', 'topPick', 'tags']
+  const lines = rows.map(({ item, status }) =>
+    [item.filename, item.key, status, item.captureTime, item.rating, item.topPick, item.tags.join(';')].map(csvValue).join(',')
+  )
+  return [header.join(','), ...lines].join('\n') + '\n'
+}
+
+// ZIP entry for one photo; `onLoad` reports whether the blob was found
+export function itemEntry(store: BlobStorage, item: ExportItem, onLoad: (status: ExportStatus) => void): ZipEntry {
+  const date = item.captureTime ? new Date(item.captureTime) : undefined
+  return {
+    name: item.filename,
+    date: date && !Number.isNaN(date.getTime()) ? date : undefined,
+    load: async () => {
+      // One photo in memory at a time; legacy uploads are base64 text and need decoding,
+      // and linked duplicates are read from the key holding their bytes
+      const data = await store.get(await resolveLinkedKey(store, item.key), { type: 'arrayBuffer' })
+      onLoad(data ? 'included' : 'missing')
+      return data ? new Uint8Array(toImageBuffer(data)) : null
+    }
+  }
+}
+
+export function manifestEntry(rows: { item: ExportItem; status: ExportStatus }[]): ZipEntry {
+  return {
+    name: MANIFEST_NAME,
+    load: async () => new TextEncoder().encode(manifestCsv(rows))
+  }
+}
+
+// ZIP entries for the items, read one photo at a time, followed by manifest.csv
+// describing what made it into the archive
+export async function* exportEntries(storeName: string, items: ExportItem[]): AsyncGenerator<ZipEntry> {
+  const store = getStorage(storeName)
+  const rows: { item: ExportItem; status: ExportStatus }[] = []
+
+  for (const item of items) {
+    yield itemEntry(store, item, status => rows.push({ item, status }))
+  }
+
+  yield manifestEntry(rows)
+}
@@ -0,0 +1,277 @@
+// Background ZIP exports. A job record in the `exports` store tracks progress while a
+// background function writes the archive there in parts; when a run nears its time
+// limit it saves its place and hands the rest of the job to a fresh invocation.
+import { randomUUID } from 'crypto'
+import {
+  archiveName,
+  ExportItem,
+  ExportSelection,
+  ExportStatus,
+  itemEntry,
+  manifestEntry,
+  resolveExportItems
+} from './exportArchive'
+import { getStorage } from './storage'
+import { finishZip, newZipState, writeZipEntry, ZipState } from './zipStream'
+
+export const EXPORT_JOB_STORE_NAME = 'exports'
+
+export const EXPORT_FUNCTION_PATH = '/.netlify/functions/export-zip-background'
+
+// Archive parts are buffered in memory before each write
+const PART_SIZE = 32 * 1024 * 1024
+
+// Finished and failed jobs are deleted, archive included, this long after their last update
+export const EXPORT_JOB_TTL_MS = 24 * 60 * 60 * 1000
+
+export type ExportJobStatus = 'queued' | 'running' | 'complete' | 'failed'
+
+export interface ExportJob {
+  id: string
+  status: ExportJobStatus
+  selection: ExportSelection
+  filename: string
+  // Resolved by the first run, so creating a job stays fast
+  items: ExportItem[] | null
+  // Outcome of each item written so far, in item order
+  statuses: ExportStatus[]
+  zip: ZipState
+  // Byte size of each stored archive part
+  parts: number[]
+  error: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+function jobKey(id: string): string {
+  return `jobs/${id}`
+}
+
+function partKey(id: string, index: number): string {
+  return `archives/${id}/part-${String(index + 1).padStart(5, '0')}`
+}
+
+function getExportStore() {
+  return getStorage(EXPORT_JOB_STORE_NAME)
+}
+
+function isExpired(job: ExportJob, now = Date.now()): boolean {
+  const finished = job.status === 'complete' || job.status === 'failed'
+  return finished && now - new Date(job.updatedAt).getTime() > EXPORT_JOB_TTL_MS
+}
+
+// Archive parts first, so a job record is never left pointing at missing parts
+async function deleteExportJob(id: string): Promise<void> {
+  const exportStore = getExportStore()
+  const parts = await exportStore.list(`archives/${id}/`)
+  await Promise.all(parts.map(part => exportStore.delete(part.key)))
+  await exportStore.delete(jobKey(id))
+}
+
+// The job, or null once it's gone or expired (an expired job is deleted on the way)
+export async function getExportJob(id: string): Promise<ExportJob | null> {
+  const job = (await getExportStore().get(jobKey(id), { type: 'json' })) as ExportJob | null
+  if (job && isExpired(job)) {
+    await deleteExportJob(id)
+    return null
+  }
+  return job
+}
+
+// Delete expired jobs nobody came back for. Returns how many were removed.
+export async function deleteExpiredExportJobs(): Promise<number> {
+  const exportStore = getExportStore()
+  const now = Date.now()
+  let deleted = 0
+  for (const { key } of await exportStore.list('jobs/')) {
+    const job = (await exportStore.get(key, { type: 'json' })) as ExportJob | null
+    if (job && isExpired(job, now)) {
+      await deleteExportJob(job.id)
+      deleted++
+    }
+  }
+  return deleted
+}
+
+async function saveExportJob(job: ExportJob): Promise<void> {
+  job.updatedAt = new Date().toISOString()
+  await getExportStore().putJSON(jobKey(job.id), job)
+}
+
+export async function createExportJob(selection: ExportSelection, filename?: string): Promise<ExportJob> {
+  const now = new Date().toISOString()
+  const job: ExportJob = {
+    id: randomUUID(),
+    status: 'queued',
+    selection,
+    filename: (filename || archiveName(selection)).replace(/[^\w.-]+/g, '_'),
+    items: null,
+    statuses: [],
+    zip: newZipState(),
+    parts: [],
+    error: null,
+    createdAt: now,
+    updatedAt: now
+  }
+  await saveExportJob(job)
+  return job
+}
+
+export async function failExportJob(job: ExportJob, error: string): Promise<void> {
+  job.status = 'failed'
+  job.error = error
+  await saveExportJob(job)
+}
+
+// Start (or continue) a job in the background function. Background functions answer 202
+// straight away and keep running on their own.
+export async function triggerExportJob(origin: string, jobId: string): Promise<void> {
+  const response = await fetch(new URL(EXPORT_FUNCTION_PATH, origin), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jobId })
+  })
+  if (!response.ok) {
+    throw new Error(`Export function responded with ${response.status}`)
+  }
+}
+
+export function exportJobSize(job: ExportJob): number {
+  return job.parts.reduce((total, size) => total + size, 0)
+}
+
+// Progress summary returned to the gallery
+export function exportJobProgress(job: ExportJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    filename: job.filename,
+    processed: job.statuses.length,
+    total: job.items ? job.items.length : null,
+    missing: job.statuses.filter(status => status === 'missing').length,
+    size: exportJobSize(job),
+    error: job.error,
+    downloadUrl: job.status === 'complete' ? `/api/export/jobs/${job.id}/download` : null,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt
+  }
+}
+
+// Work on a job until it completes or `deadline` (ms timestamp) passes. Progress is
+// saved together with each archive part, so a run that dies mid-part is redone from
+// the last saved part. Returns 'continue' when more runs are needed.
+export async function runExportJob(id: string, deadline: number): Promise<'complete' | 'continue' | 'failed'> {
+  const job = await getExportJob(id)
+  if (!job) {
+    throw new Error(`Export job not found: ${id}`)
+  }
+  if (job.status === 'complete' || job.status === 'failed') {
+    return job.status
+  }
+
+  try {
+    if (!job.items) {
+      job.items = await resolveExportItems(job.selection)
+      if (job.items.length === 0) {
+        await failExportJob(job, 'No photos to export')
+        return 'failed'
+      }
+    }
+    job.status = 'running'
+    await saveExportJob(job)
+
+    const items = job.items
+    const exportStore = getExportStore()
+    const sourceStore = getStorage(job.selection.storeName)
+    let pending: Uint8Array[] = []
+    let pendingSize = 0
+
+    // Store buffered bytes as the next part, then record progress up to this point
+    const flush = async () => {
+      if (pendingSize > 0) {
+        const part = new Uint8Array(pendingSize)
+        let offset = 0
+        for (const chunk of pending) {
+          part.set(chunk, offset)
+          offset += chunk.length
+        }
+        await exportStore.put(partKey(job.id, job.parts.length), part.buffer)
+        job.parts.push(pendingSize)
+        pending = []
+        pendingSize = 0
+      }
+      await saveExportJob(job)
+    }
+
+    const write = async (chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array>) => {
+      for await (const chunk of chunks) {
+        pending.push(chunk)
+        pendingSize += chunk.length
+      }
+    }
+
+    while (job.statuses.length < items.length) {
+      const item = items[job.statuses.length]
+      let status: ExportStatus = 'missing'
+      await write(writeZipEntry(job.zip, itemEntry(sourceStore, item, loaded => { status = loaded })))
+      job.statuses.push(status)
+
+      if (pendingSize >= PART_SIZE) {
+        await flush()
+      }
+
+      // Every run makes progress, so a slow photo can't stall the job forever
+      if (Date.now() >= deadline && job.statuses.length < items.length) {
+        await flush()
+        return 'continue'
+      }
+    }
+
+    const rows = items.map((item, index) => ({ item, status: job.statuses[index] }))
+    await write(writeZipEntry(job.zip, manifestEntry(rows)))
+    await write(finishZip(job.zip))
+    job.status = 'complete'
+    await flush()
+    return 'complete'
+  } catch (error) {
+    console.error(`Export job ${id} failed:`, error)
+    await failExportJob(job, error instanceof Error ? error.message : 'Unknown error')
+    return 'failed'
+  }
+}
+
+// The finished archive, read part by part
+export function exportArchiveStream(job: ExportJob): ReadableStream<Uint8Array> {
+  const exportStore = getExportStore()
+  let index = 0
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        if (!reader) {
+          if (index >= job.parts.length) {
+            controller.close()
+            return
+          }
+          const part = await exportStore.get(partKey(job.id, index++), { type: 'stream' })
+          if (!part) {
+            controller.error(new Error(`Export part missing for job ${job.id}`))
+            return
+          }
+          reader = (part as ReadableStream<Uint8Array>).getReader()
+        }
+
+        const { done, value } = await reader.read()
+        if (!done) {
+          controller.enqueue(value)
+          return
+        }
+        reader = null
+      }
+    },
+    async cancel() {
+      await reader?.cancel()
+    }
+  })
+}
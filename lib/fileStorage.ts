@@ -0,0 +1,221 @@
+// Blob storage on the local filesystem, for development and tests without Netlify.
+// Each store is a folder under the root and each key a file path inside it, so photos
+// can be dropped in by hand; metadata sits next to the file in {file}.meta.json.
+import { promises as fs } from 'fs'
+import type { BigIntStats } from 'fs'
+import path from 'path'
+import { Readable } from 'stream'
+import type { BlobData, BlobHead, BlobMetadata, BlobStorage, BlobWithMetadata, PutOptions, StoredBlob } from './storage'
+
+const META_SUFFIX = '.meta.json'
+const TEMP_SUFFIX = '.tmp'
+
+// Same page size as the Blobs API, so paging callers see more than one page locally
+const LIST_PAGE_SIZE = 1000
+
+// A key that would resolve outside its store, or onto a sidecar or temporary file
+export class InvalidBlobKeyError extends Error {}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
+
+async function toBuffer(data: BlobData): Promise<Buffer> {
+  if (typeof data === 'string') return Buffer.from(data)
+  if (data instanceof ArrayBuffer) return Buffer.from(data)
+  return Buffer.from(await data.arrayBuffer())
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) as ArrayBuffer
+}
+
+// Write to a temporary file and rename it into place, so readers never see half a file
+async function writeAtomic(file: string, data: Buffer | string): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const temp = `${file}.${process.pid}.${Date.now()}${TEMP_SUFFIX}`
+  await fs.writeFile(temp, data)
+  await fs.rename(temp, file)
+}
+
+// Writes in flight per file. Conditional writes check the etag and write under this lock,
+// which covers concurrent requests in one dev server (not several processes).
+const fileLocks = new Map<string, Promise<unknown>>()
+
+async function withFileLock<T>(file: string, task: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(file) ?? Promise.resolve()
+  const current = previous.catch(() => undefined).then(task)
+  fileLocks.set(file, current)
+  try {
+    return await current
+  } finally {
+    if (fileLocks.get(file) === current) fileLocks.delete(file)
+  }
+}
+
+export class FileSystemBlobStorage implements BlobStorage {
+  private root: string
+
+  constructor(readonly name: string, rootDir: string) {
+    this.root = path.resolve(rootDir, name)
+  }
+
+  // Keys are untrusted (they arrive in query strings), so they must stay inside the store
+  private fileFor(key: string): string {
+    const file = path.resolve(this.root, key)
+    if (!key || key.split('/').some(segment => segment === '..') || !file.startsWith(this.root + path.sep)) {
+      throw new InvalidBlobKeyError(`Invalid blob key: ${key}`)
+    }
+    if (file.endsWith(META_SUFFIX) || file.endsWith(TEMP_SUFFIX)) {
+      throw new InvalidBlobKeyError(`Blob keys can't end in ${META_SUFFIX} or ${TEMP_SUFFIX}: ${key}`)
+    }
+    return file
+  }
+
+  // Every write renames a new file into place, so the inode changes even when two writes
+  // land within the same clock tick
+  private etagFor(stat: BigIntStats): string {
+    return [stat.ino, stat.size, stat.mtimeNs].map(part => part.toString(16)).join('-')
+  }
+
+  private async stat(file: string): Promise<BigIntStats> {
+    return fs.stat(file, { bigint: true })
+  }
+
+  private async readMetadata(file: string): Promise<BlobMetadata> {
+    try {
+      return JSON.parse(await fs.readFile(`${file}${META_SUFFIX}`, 'utf8'))
+    } catch (error) {
+      // Files added by hand have no sidecar
+      if (isMissing(error)) return {}
+      throw error
+    }
+  }
+
+  // Every blob file below `dir`, as keys
+  private async walk(dir: string, keys: string[]): Promise<void> {
+    let entries
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true })
+    } catch (error) {
+      if (isMissing(error)) return
+      throw error
+    }
+    for (const entry of entries) {
+      const file = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        await this.walk(file, keys)
+      } else if (!entry.name.endsWith(META_SUFFIX) && !entry.name.endsWith(TEMP_SUFFIX) && !entry.name.startsWith('.')) {
+        keys.push(path.relative(this.root, file).split(path.sep).join('/'))
+      }
+    }
+  }
+
+  async list(prefix = ''): Promise<StoredBlob[]> {
+    // Only the folder the prefix points into needs walking
+    const folder = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : ''
+    const keys: string[] = []
+    await this.walk(folder ? this.fileFor(folder) : this.root, keys)
+
+    const matching = keys.filter(key => key.startsWith(prefix)).sort()
+    return Promise.all(
+      matching.map(async key => ({ key, etag: this.etagFor(await this.stat(this.fileFor(key))) }))
+    )
+  }
+
+  async *listPages(prefix = ''): AsyncIterable<StoredBlob[]> {
+    const blobs = await this.list(prefix)
+    for (let start = 0; start < blobs.length; start += LIST_PAGE_SIZE) {
+      yield blobs.slice(start, start + LIST_PAGE_SIZE)
+    }
+  }
+
+  get(key: string, options: { type: 'arrayBuffer' }): Promise<ArrayBuffer | null>
+  get(key: string, options: { type: 'json' }): Promise<unknown>
+  get(key: string, options: { type: 'stream' }): Promise<ReadableStream | null>
+  async get(key: string, { type }: { type: 'arrayBuffer' | 'json' | 'stream' }): Promise<unknown> {
+    const file = this.fileFor(key)
+    try {
+      if (type === 'stream') {
+        // Open first so a missing file is reported here rather than mid-stream
+        const handle = await fs.open(file, 'r')
+        return Readable.toWeb(handle.createReadStream()) as ReadableStream
+      }
+      const data = await fs.readFile(file)
+      return type === 'json' ? JSON.parse(data.toString('utf8')) : toArrayBuffer(data)
+    } catch (error) {
+      if (isMissing(error)) return null
+      throw error
+    }
+  }
+
+  async getMetadata(key: string): Promise<BlobHead | null> {
+    const file = this.fileFor(key)
+    try {
+      const stat = await this.stat(file)
+      if (!stat.isFile()) return null
+      return { etag: this.etagFor(stat), size: Number(stat.size), metadata: await this.readMetadata(file) }
+    } catch (error) {
+      if (isMissing(error)) return null
+      throw error
+    }
+  }
+
+  async getWithMetadata(key: string): Promise<BlobWithMetadata | null> {
+    const head = await this.getMetadata(key)
+    const data = head ? await this.get(key, { type: 'arrayBuffer' }) : null
+    return head && data ? { ...head, data } : null
+  }
+
+  async getSize(key: string): Promise<number | null> {
+    return (await this.getMetadata(key))?.size ?? null
+  }
+
+  async put(key: string, data: BlobData, { metadata, onlyIfMatch, onlyIfNew }: PutOptions = {}): Promise<boolean> {
+    const file = this.fileFor(key)
+    const buffer = await toBuffer(data)
+    return withFileLock(file, async () => {
+      if (onlyIfMatch !== undefined || onlyIfNew) {
+        const head = await this.getMetadata(key)
+        if (onlyIfNew ? head !== null : head?.etag !== onlyIfMatch) return false
+      }
+      // Metadata first: the data file is the etag, so it has to change last
+      if (metadata && Object.keys(metadata).length > 0) {
+        await writeAtomic(`${file}${META_SUFFIX}`, JSON.stringify(metadata, null, 2))
+      } else {
+        await fs.rm(`${file}${META_SUFFIX}`, { force: true })
+      }
+      await writeAtomic(file, buffer)
+      return true
+    })
+  }
+
+  putJSON(key: string, value: unknown, options?: PutOptions): Promise<boolean> {
+    return this.put(key, JSON.stringify(value), options)
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.fileFor(key)
+    await fs.rm(file, { force: true })
+    await fs.rm(`${file}${META_SUFFIX}`, { force: true })
+  }
+
+  async move(from: string, to: string): Promise<boolean> {
+    const source = this.fileFor(from)
+    const target = this.fileFor(to)
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    try {
+      await fs.rename(source, target)
+    } catch (error) {
+      if (isMissing(error)) return false
+      throw error
+    }
+    try {
+      await fs.rename(`${source}${META_SUFFIX}`, `${target}${META_SUFFIX}`)
+    } catch (error) {
+      if (!isMissing(error)) throw error
+      await fs.rm(`${target}${META_SUFFIX}`, { force: true })
+    }
+    return true
+  }
+}
@@ -0,0 +1,119 @@
+// HTTP Range helpers for streaming blob responses
+
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+// Parse a single "bytes=" range against a known size.
+// Returns null when the full body should be sent (no header, multiple ranges or an
+// invalid value such as an end before the start, all of which RFC 9110 lets us ignore)
+// and 'unsatisfiable' for a 416: a start past the end of the body or an empty suffix.
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match) return null
+
+  const [, startText, endText] = match
+  if (!startText && !endText) return null
+
+  let start: number
+  let end: number
+  if (!startText) {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(endText, 10)
+    if (suffix === 0) return 'unsatisfiable'
+    start = Math.max(size - suffix, 0)
+    end = size - 1
+  } else {
+    start = parseInt(startText, 10)
+    if (endText && parseInt(endText, 10) < start) return null
+    end = endText ? Math.min(parseInt(endText, 10), size - 1) : size - 1
+  }
+
+  if (start >= size) {
+    return 'unsatisfiable'
+  }
+  return { start, end }
+}
+
+// Whether an If-Range validator still matches, so the Range header should be honored.
+// Only strong ETags are compared; a date validator is treated as changed.
+export function ifRangeMatches(ifRange: string | null, etag: string): boolean {
+  if (!ifRange) return true
+  const value = ifRange.trim()
+  return !value.startsWith('W/') && value === etag
+}
+
+// Emit only bytes [start, end] of a stream, cancelling the source once the range is sent
+export function sliceStream(source: ReadableStream<Uint8Array>, { start, end }: ByteRange): ReadableStream<Uint8Array> {
+  const reader = source.getReader()
+  let offset = 0
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) {
+          controller.close()
+          return
+        }
+
+        const chunkStart = offset
+        offset += value.byteLength
+        if (offset <= start) continue
+
+        const from = Math.max(start - chunkStart, 0)
+        const to = Math.min(end + 1 - chunkStart, value.byteLength)
+        controller.enqueue(value.subarray(from, to))
+
+        if (offset > end) {
+          controller.close()
+          await reader.cancel()
+        }
+        return
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    }
+  })
+}
+
+// Read the first chunk (e.g. to sniff a file signature) without losing it from the stream
+export async function peekStream(
+  source: ReadableStream<Uint8Array>
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = source.getReader()
+  const first = await reader.read()
+
+  if (first.done) {
+    reader.releaseLock()
+    return { head: new Uint8Array(0), stream: new ReadableStream({ start: controller => controller.close() }) }
+  }
+
+  const head = first.value
+  let pending: Uint8Array | null = head
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (pending) {
+        controller.enqueue(pending)
+        pending = null
+        return
+      }
+      const { done, value } = await reader.read()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    }
+  })
+
+  return { head, stream }
+}
@@ -0,0 +1,272 @@
+// Server-side image resizing and transcoding with sharp, shared by the image-serving API routes
+import sharp from 'sharp'
+import { getStorage } from './storage'
+
+export type ImageFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside'
+
+export type OutputFormat = 'jpeg' | 'webp' | 'avif'
+
+export interface TransformOptions {
+  width?: number
+  height?: number
+  fit: ImageFit
+  quality: number
+  format: OutputFormat
+}
+
+export interface TransformResult {
+  buffer: Buffer
+  contentType: string
+}
+
+// Named sizes accepted via ?size=
+export const SIZE_PRESETS: Record<string, Omit<TransformOptions, 'format'>> = {
+  thumb: { width: 400, height: 400, fit: 'inside', quality: 70 },
+  medium: { width: 1200, height: 1200, fit: 'inside', quality: 80 },
+  large: { width: 2048, height: 2048, fit: 'inside', quality: 85 }
+}
+
+const FITS: ImageFit[] = ['cover', 'contain', 'fill', 'inside', 'outside']
+const FORMATS: OutputFormat[] = ['jpeg', 'webp', 'avif']
+const CONTENT_TYPES: Record<OutputFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif'
+}
+const MAX_DIMENSION = 4096
+const DEFAULT_QUALITY = 80
+
+// Store holding rendered variants so each size is only computed once
+export const DERIVED_STORE_NAME = 'images-derived'
+
+export function getDerivedStore() {
+  return getStorage(DERIVED_STORE_NAME)
+}
+
+function parseDimension(value: string | null): number | undefined {
+  if (!value) return undefined
+  const parsed = parseInt(value, 10)
+  if (!Number.isFinite(parsed) || parsed < 1) return undefined
+  return Math.min(parsed, MAX_DIMENSION)
+}
+
+// Whether a blob starts with base64 text rather than image bytes. Older uploads from
+// scripts/upload-to-blobs.js were written through the CLI as base64 text.
+export function isBase64Encoded(start: Uint8Array): boolean {
+  const buffer = Buffer.from(start.buffer, start.byteOffset, start.byteLength)
+  const isJpeg = buffer[0] === 0xff && buffer[1] === 0xd8
+  const isPng = buffer[0] === 0x89 && buffer[1] === 0x50
+  if (isJpeg || isPng || buffer.length === 0) {
+    return false
+  }
+  return /^[A-Za-z0-9+/=\s]+$/.test(buffer.subarray(0, 64).toString('latin1'))
+}
+
+// Blob data as a Buffer, with base64-encoded uploads decoded back to the original bytes
+export function toImageBuffer(data: ArrayBuffer): Buffer {
+  const buffer = Buffer.from(data)
+  return isBase64Encoded(buffer) ? Buffer.from(buffer.toString('latin1'), 'base64') : buffer
+}
+
+// Sniff the content type from the file signature, falling back to the key's extension
+export function getContentType(key: string, buffer: Buffer): string {
+  const ext = key.toLowerCase().split('.').pop()
+  
+  // Check file signature for more reliable detection
+  if (buffer.length >= 2) {
+    const signature = buffer.subarray(0, 4)
+    
+    // JPEG
+    if (signature[0] === 0xFF && signature[1] === 0xD8) {
+      return 'image/jpeg'
+    }
+    
+    // PNG
+    if (signature[0] === 0x89 && signature[1] === 0x50 && signature[2] === 0x4E && signature[3] === 0x47) {
+      return 'image/png'
+    }
+    
+    // WebP
+    if (signature.toString().includes('WEBP')) {
+      return 'image/webp'
+    }
+  }
+  
+  // Fallback to extension-based detection
+  switch (ext) {
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg'
+    case 'png':
+      return 'image/png'
+    case 'webp':
+      return 'image/webp'
+    case 'gif':
+      return 'image/gif'
+    case 'mp4':
+      return 'video/mp4'
+    case 'm4v':
+      return 'video/x-m4v'
+    case 'mov':
+      return 'video/quicktime'
+    case 'webm':
+      return 'video/webm'
+    default:
+      return 'application/octet-stream'
+  }
+}
+
+// Only raster formats sharp can re-encode without losing anything (e.g. GIF animation)
+export function isTransformable(contentType: string): boolean {
+  return ['image/jpeg', 'image/png', 'image/webp', 'image/avif'].includes(contentType)
+}
+
+// Whether a stored blob can be an image, from its metadata content type or else its key's
+// extension, so videos and documents are streamed instead of buffered for a transform.
+// Unknown types pass; getOrCreateVariant checks the bytes before transforming.
+export function isImageSource(key: string, contentType?: unknown): boolean {
+  const type = typeof contentType === 'string' && contentType ? contentType : getContentType(key, Buffer.alloc(0))
+  return type.startsWith('image/') || type === 'application/octet-stream'
+}
+
+// Pick the best format the client advertises in its Accept header.
+// Plain fetch() sends */*, so downloads keep the stored JPEG.
+export function negotiateFormat(accept: string | null): OutputFormat {
+  if (!accept) return 'jpeg'
+  if (accept.includes('image/avif')) return 'avif'
+  if (accept.includes('image/webp')) return 'webp'
+  return 'jpeg'
+}
+
+// Build transform options from ?size= / ?w= / ?h= / ?fit= / ?q= / ?format= and the Accept header.
+// Accept only picks the format of a resized variant: navigations and downloads advertise
+// AVIF too, and should get the stored original rather than a full-size re-encode.
+// Returns null when the original should be served untouched.
+export function parseTransformParams(searchParams: URLSearchParams, accept: string | null = null): TransformOptions | null {
+  const size = searchParams.get('size')
+  const preset = size ? SIZE_PRESETS[size] : undefined
+
+  const width = parseDimension(searchParams.get('w'))
+  const height = parseDimension(searchParams.get('h'))
+  const fitParam = searchParams.get('fit') as ImageFit | null
+  const qualityParam = parseInt(searchParams.get('q') || '', 10)
+  const formatParam = searchParams.get('format') as OutputFormat | null
+  const explicitFormat = formatParam && FORMATS.includes(formatParam) ? formatParam : null
+  const resized = Boolean(preset || width || height)
+  const format = explicitFormat ?? (resized ? negotiateFormat(accept) : 'jpeg')
+
+  if (!resized && format === 'jpeg') {
+    return null
+  }
+
+  const fit = fitParam && FITS.includes(fitParam) ? fitParam : preset?.fit || 'inside'
+  const quality =
+    Number.isFinite(qualityParam) && qualityParam >= 1 && qualityParam <= 100
+      ? qualityParam
+      : preset?.quality || DEFAULT_QUALITY
+
+  return {
+    width: width ?? (height ? undefined : preset?.width),
+    height: height ?? (width ? undefined : preset?.height),
+    fit,
+    quality,
+    format
+  }
+}
+
+// Key of a rendered variant in the derived store
+export function variantKey(key: string, options: TransformOptions): string {
+  const parts = [`w${options.width ?? 'auto'}`, `h${options.height ?? 'auto'}`, options.fit, `q${options.quality}`]
+  return `${key}/${parts.join('_')}.${options.format}`
+}
+
+export function formatContentType(format: OutputFormat): string {
+  return CONTENT_TYPES[format]
+}
+
+// Resize and/or transcode an image, applying EXIF orientation first so rotated phone shots render upright
+export async function transformImage(input: Buffer, options: TransformOptions): Promise<TransformResult> {
+  let pipeline = sharp(input).rotate()
+
+  if (options.width || options.height) {
+    pipeline = pipeline.resize({
+      width: options.width,
+      height: options.height,
+      fit: options.fit,
+      withoutEnlargement: true
+    })
+  }
+
+  switch (options.format) {
+    case 'avif':
+      // AVIF looks comparable to JPEG at a noticeably lower quality setting
+      pipeline = pipeline.avif({ quality: Math.max(1, Math.round(options.quality * 0.625)) })
+      break
+    case 'webp':
+      pipeline = pipeline.webp({ quality: options.quality })
+      break
+    default:
+      pipeline = pipeline.jpeg({ quality: options.quality, mozjpeg: true })
+  }
+
+  const buffer = await pipeline.toBuffer()
+  return { buffer, contentType: formatContentType(options.format) }
+}
+
+// Return a cached variant, rendering and storing it on first request.
+// Variants are namespaced by source store so equal keys in different stores don't collide,
+// and remember the source blob's etag so a replaced original is re-rendered.
+// The original is only loaded on a cache miss; if it turns out not to be a transformable
+// image it is returned as-is with transformed: false.
+export async function getOrCreateVariant(
+  sourceStore: string,
+  key: string,
+  options: TransformOptions,
+  sourceEtag: string | undefined,
+  loadOriginal: () => Promise<Buffer>
+): Promise<TransformResult & { cached: boolean; transformed: boolean }> {
+  const derivedStore = getDerivedStore()
+  const derivedKey = `${sourceStore}/${variantKey(key, options)}`
+
+  try {
+    const existing = await derivedStore.getWithMetadata(derivedKey)
+    if (existing?.data && (existing.metadata.sourceEtag ?? null) === (sourceEtag ?? null)) {
+      return {
+        buffer: Buffer.from(existing.data),
+        contentType: (existing.metadata.contentType as string) || formatContentType(options.format),
+        cached: true,
+        transformed: true
+      }
+    }
+  } catch (error) {
+    console.warn(`Failed to read variant ${derivedKey}:`, error)
+  }
+
+  const original = await loadOriginal()
+  const originalType = getContentType(key, original)
+  if (!isTransformable(originalType)) {
+    return { buffer: original, contentType: originalType, cached: false, transformed: false }
+  }
+
+  const result = await transformImage(original, options)
+
+  try {
+    const arrayBuffer = result.buffer.buffer.slice(
+      result.buffer.byteOffset,
+      result.buffer.byteOffset + result.buffer.byteLength
+    ) as ArrayBuffer
+    await derivedStore.put(derivedKey, arrayBuffer, {
+      metadata: {
+        contentType: result.contentType,
+        source: `${sourceStore}/${key}`,
+        sourceEtag: sourceEtag ?? null,
+        createdAt: new Date().toISOString()
+      }
+    })
+  } catch (error) {
+    // A failed cache write shouldn't fail the request
+    console.warn(`Failed to cache variant ${derivedKey}:`, error)
+  }
+
+  return { ...result, cached: false, transformed: true }
+}
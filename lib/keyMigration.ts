@@ -0,0 +1,259 @@
+// Key migration: copies photos from the legacy layouts (flat 2025 keys, top/ and all/
+// folders, camera names) to the canonical parties/{year}/{property}/{timestamp}_{status}
+// keys, metadata included, then deletes the old key. Every move is recorded in a redirect
+// map, which doubles as the resume log: a re-run skips sources that already have a redirect.
+import {
+  Asset,
+  AssetStatus,
+  buildEventKey,
+  canonicalAssetKey,
+  isCanonicalAssetKey,
+  parseAssetKey,
+  parseEventKey,
+  timestampFromCaptureTime
+} from './assets'
+import { getContentIndexStore, linkTarget, recordContentHash } from './contentIndex'
+import { getEventManifest, rebuildEventManifest } from './eventManifest'
+import { renamePartyAssetKeys } from './propertyData'
+import { getKeyRedirect, KeyRedirect, REDIRECT_STORE, redirectKey } from './keyRedirects'
+import { moveRatings } from './ratings'
+import { ASSET_STORAGE_NAME, getStorage } from './storage'
+import { getAssetTags, updateAssetTags } from './tags'
+
+// The flat 2025 keys are all from The Archive's party
+export const DEFAULT_FLAT_PROPERTY_ID = 'the-archive'
+
+export interface MigrationOptions {
+  storeName: string
+  // Only keys under this prefix are migrated (default: the whole store)
+  prefix?: string
+  // Flat keys don't say which property they belong to
+  flatPropertyId: string
+  dryRun?: boolean
+  // Leave each original in place next to its copy. Both then show up in listings and the
+  // redirect only answers once the original is deleted, so this is for trial runs.
+  keepOriginals?: boolean
+  // Stop starting new copies after this time (ms since epoch); the next run resumes
+  deadline?: number
+  onStep?: (step: MigrationStep) => void
+}
+
+export interface MigrationStep {
+  from: string
+  to: string | null
+  // copy: bytes and metadata copied; redirect: a top/ copy pointed at its original's new key
+  action: 'copy' | 'redirect' | 'skip' | 'failed'
+  reason?: string
+}
+
+export interface MigrationResult {
+  storeName: string
+  prefix: string
+  dryRun: boolean
+  // False when the deadline stopped the run early
+  complete: boolean
+  // Sources migrated by earlier runs
+  alreadyMigrated: number
+  remaining: number
+  counts: Record<MigrationStep['action'], number>
+  steps: MigrationStep[]
+  // Event manifests rebuilt so galleries list the new keys
+  rebuiltManifests: number
+}
+
+async function listKeys(storeName: string, prefix: string): Promise<string[]> {
+  return (await getStorage(storeName).list(prefix)).map(blob => blob.key)
+}
+
+// Originals before top/ copies, so a copy can point at where its original went
+function migrationOrder(a: Asset, b: Asset): number {
+  return Number(a.section === 'top') - Number(b.section === 'top') || a.key.localeCompare(b.key)
+}
+
+export async function migrateKeys(options: MigrationOptions): Promise<MigrationResult> {
+  const { storeName, flatPropertyId, dryRun = false, keepOriginals = false, deadline, onStep } = options
+  const prefix = options.prefix || ''
+  const store = getStorage(storeName)
+  const redirects = getStorage(REDIRECT_STORE)
+
+  const storeKeys = await listKeys(storeName, '')
+  const migrated = new Set((await listKeys(REDIRECT_STORE, `${storeName}/`)).map(key => key.slice(storeName.length + 1)))
+  // Keys already used, including those this run hands out
+  const taken = new Set(storeKeys)
+  const renames = new Map<string, string>()
+
+  const sources = storeKeys
+    .filter(key => key.startsWith(prefix) && !isCanonicalAssetKey(key))
+    .map(parseAssetKey)
+    .sort(migrationOrder)
+
+  const result: MigrationResult = {
+    storeName,
+    prefix,
+    dryRun,
+    complete: true,
+    alreadyMigrated: 0,
+    remaining: 0,
+    counts: { copy: 0, redirect: 0, skip: 0, failed: 0 },
+    steps: [],
+    rebuiltManifests: 0
+  }
+
+  const record = (step: MigrationStep) => {
+    result.counts[step.action]++
+    result.steps.push(step)
+    onStep?.(step)
+  }
+
+  // New key of a source moved in this run or an earlier one
+  const movedTo = async (key: string) => renames.get(key) ?? (await getKeyRedirect(storeName, key))?.to ?? null
+
+  const pending = new Map(sources.map(asset => [asset.key, asset]))
+  const existing = new Set(storeKeys)
+
+  // Migrate one source, once; links call this for their target first
+  const migrate = async (asset: Asset) => {
+    pending.delete(asset.key)
+    try {
+      const step = await migrateOne(asset)
+      if (step.to && step.action !== 'skip') renames.set(asset.key, step.to)
+      record(step)
+    } catch (error) {
+      record({ from: asset.key, to: null, action: 'failed', reason: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  for (const asset of sources) {
+    if (!pending.has(asset.key)) continue
+    if (migrated.has(asset.key)) {
+      pending.delete(asset.key)
+      result.alreadyMigrated++
+      continue
+    }
+    if (deadline !== undefined && Date.now() >= deadline) {
+      result.complete = false
+      result.remaining = Array.from(pending.keys()).filter(key => !migrated.has(key)).length
+      break
+    }
+    await migrate(asset)
+  }
+
+  // Keep the catalogue's pick lists and the events' manifests pointing at the new keys
+  if (!dryRun && renames.size > 0) {
+    await renamePartyAssetKeys(renames)
+    result.rebuiltManifests = await rebuildManifests(Array.from(renames).flat())
+  }
+
+  return result
+
+  // Manifests of every event a moved key left or joined, for this store and the merged
+  // assets storage that galleries read. Events without a manifest build one on first load.
+  async function rebuildManifests(keys: string[]): Promise<number> {
+    const events = new Map<string, { propertyId: string; year: string }>()
+    for (const key of keys) {
+      const event = parseEventKey(key)
+      if (event) events.set(`${event.propertyId}/${event.year}`, event)
+    }
+
+    let rebuilt = 0
+    for (const name of new Set([storeName, ASSET_STORAGE_NAME])) {
+      for (const { propertyId, year } of events.values()) {
+        if (await getEventManifest(propertyId, year, name)) {
+          await rebuildEventManifest(propertyId, year, name)
+          rebuilt++
+        }
+      }
+    }
+    return rebuilt
+  }
+
+  async function migrateOne(asset: Asset): Promise<MigrationStep> {
+    const propertyId = asset.propertyId ?? flatPropertyId
+    if (!asset.year) {
+      return { from: asset.key, to: null, action: 'skip', reason: 'No year in key' }
+    }
+
+    // A top/ copy of a photo that is also in the event just follows its original
+    if (asset.section === 'top') {
+      const original = [buildEventKey(propertyId, asset.year, asset.name), buildEventKey(propertyId, asset.year, asset.name, 'all')]
+        .find(key => taken.has(key) || renames.has(key))
+      const to = original ? await movedTo(original) : null
+      if (to) {
+        await finish(asset.key, to, false)
+        return { from: asset.key, to, action: 'redirect' }
+      }
+    }
+
+    const head = await store.getMetadata(asset.key)
+    if (!head) {
+      return { from: asset.key, to: null, action: 'skip', reason: 'Blob no longer exists' }
+    }
+    const metadata = head.metadata
+
+    const timestamp = asset.timestamp ?? timestampFromCaptureTime(metadata.captureTime as string | undefined)
+    if (!timestamp) {
+      return { from: asset.key, to: null, action: 'skip', reason: 'No timestamp in key or capture time in metadata' }
+    }
+
+    // The live top-pick flag wins over the status baked into the old name
+    const status: AssetStatus = typeof metadata.topPick === 'boolean'
+      ? (metadata.topPick ? 'picked' : 'unpicked')
+      : asset.status
+    let sequence = 1
+    let to = canonicalAssetKey(propertyId, asset.year, timestamp, status)
+    let copied = false
+    while (taken.has(to)) {
+      // A copy left by a run that stopped before writing its redirect is reused
+      if (existing.has(to) && (await store.getMetadata(to))?.metadata.migratedFrom === asset.key) {
+        copied = true
+        break
+      }
+      to = canonicalAssetKey(propertyId, asset.year, timestamp, status, ++sequence)
+    }
+    taken.add(to)
+
+    // Links are written after their target so they can point at its new key
+    const target = linkTarget(metadata)
+    const targetAsset = target ? pending.get(target) : undefined
+    if (targetAsset && !migrated.has(targetAsset.key)) {
+      await migrate(targetAsset)
+    }
+
+    if (!dryRun && !copied) {
+      const data = await store.get(asset.key, { type: 'arrayBuffer' })
+      if (!data) throw new Error('Blob disappeared while copying')
+
+      const linkedTo = target ? (await movedTo(target)) ?? target : undefined
+      await store.put(to, data, {
+        metadata: { ...metadata, ...(linkedTo ? { linkedTo } : {}), migratedFrom: asset.key }
+      })
+      if (typeof metadata.contentHash === 'string' && !target) {
+        await recordContentHash(getContentIndexStore(), store, metadata.contentHash, to)
+      }
+    }
+    await finish(asset.key, to, true)
+
+    return { from: asset.key, to, action: 'copy' }
+  }
+
+  // Redirect, tags, votes and the original, once the copy is safely written
+  async function finish(from: string, to: string, moveTags: boolean): Promise<void> {
+    if (dryRun) return
+
+    if (moveTags) {
+      const tags = await getAssetTags(from)
+      if (tags.length > 0) {
+        await updateAssetTags(to, existing => [...existing, ...tags])
+        if (!keepOriginals) await updateAssetTags(from, () => [])
+      }
+      await moveRatings(from, to, keepOriginals)
+    }
+
+    const redirect: KeyRedirect = { from, to, migratedAt: new Date().toISOString() }
+    await redirects.putJSON(redirectKey(storeName, from), redirect)
+
+    if (!keepOriginals) {
+      await store.delete(from)
+    }
+  }
+}
@@ -0,0 +1,26 @@
+// Redirects left by the key migration: old key → new key, per store. Kept apart from the
+// migration itself so lookups (serving, following links) don't pull it in.
+import { ASSET_STORAGE_NAME, assetStoreNames, getStorage } from './storage'
+
+export const REDIRECT_STORE = 'key-redirects'
+
+export interface KeyRedirect {
+  from: string
+  to: string
+  migratedAt: string
+}
+
+export function redirectKey(storeName: string, key: string): string {
+  return `${storeName}/${key}`
+}
+
+// Redirects for the assets storage may have been recorded against any store behind it
+export async function getKeyRedirect(storeName: string, key: string): Promise<KeyRedirect | null> {
+  const redirects = getStorage(REDIRECT_STORE)
+  const storeNames = storeName === ASSET_STORAGE_NAME ? [storeName, ...assetStoreNames()] : [storeName]
+  for (const name of storeNames) {
+    const redirect = (await redirects.get(redirectKey(name, key), { type: 'json' })) as KeyRedirect | null
+    if (redirect) return redirect
+  }
+  return null
+}
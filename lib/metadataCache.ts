@@ -1,29 +1,41 @@
-// Metadata caching service for preloading and managing photo metadata
-import ExifReader from 'exifreader'
-
-interface PhotoMetadata {
-  DateTimeOriginal?: string
-  Make?: string
-  Model?: string
-  LensModel?: string
-  ISO?: number
-  FNumber?: number
-  ExposureTime?: string
-  FocalLength?: number
-  [key: string]: any
-}
+// Metadata caching service for preloading and managing photo metadata.
+// EXIF is read server-side by /api/metadata, so only a small JSON response is fetched per photo.
+import type { PhotoMetadata } from './exif'
+import { createMetadataStorage, MemoryMetadataStorage, MetadataStorage } from './metadataStorage'
+
+export type { PhotoMetadata }
+
+const METADATA_ENDPOINT = '/api/metadata'
+
+const MAX_ENTRIES = 1000
+
+// Writes outside preloadBatch are collected for this long before hitting storage
+const WRITE_DELAY_MS = 500
 
 class MetadataCache {
+  // Map iteration order doubles as the LRU order: least recently used first
   private cache: Map<string, PhotoMetadata>
   private pendingRequests: Map<string, Promise<PhotoMetadata>>
   private preloadQueue: string[]
   private isPreloading: boolean
+  private storage: MetadataStorage
+  private maxEntries: number
+  // Keys written or read since the last flush, persisted as recently used
+  private dirty: Set<string>
+  private flushTimer: ReturnType<typeof setTimeout> | null
+  // preloadBatch calls in progress; they flush once per chunk instead
+  private activeBatches: number
 
-  constructor() {
+  constructor(storage: MetadataStorage = new MemoryMetadataStorage(), maxEntries = MAX_ENTRIES) {
     this.cache = new Map()
     this.pendingRequests = new Map()
     this.preloadQueue = []
     this.isPreloading = false
+    this.storage = storage
+    this.maxEntries = maxEntries
+    this.dirty = new Set()
+    this.flushTimer = null
+    this.activeBatches = 0
   }
 
   // Get cache key for a photo
@@ -31,6 +43,27 @@ class MetadataCache {
     return photoPath
   }
 
+  // Move an entry to the most recently used end, evicting from the other end
+  private touch(cacheKey: string, metadata: PhotoMetadata): void {
+    this.cache.delete(cacheKey)
+    this.cache.set(cacheKey, metadata)
+    this.dirty.add(cacheKey)
+
+    while (this.cache.size > this.maxEntries) {
+      const oldest = this.cache.keys().next().value as string
+      this.cache.delete(oldest)
+      this.dirty.delete(oldest)
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer !== null) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      this.flush()
+    }, WRITE_DELAY_MS)
+  }
+
   // Check if metadata is cached
   has(photoPath: string): boolean {
     return this.cache.has(this.getCacheKey(photoPath))
@@ -38,52 +71,72 @@ class MetadataCache {
 
   // Get cached metadata
   get(photoPath: string): PhotoMetadata | undefined {
-    return this.cache.get(this.getCacheKey(photoPath))
+    const cacheKey = this.getCacheKey(photoPath)
+    const metadata = this.cache.get(cacheKey)
+    if (metadata) {
+      this.touch(cacheKey, metadata)
+      this.scheduleFlush()
+    }
+    return metadata
   }
 
-  // Set metadata in cache
+  // Set metadata in cache; persisted with the next flush
   set(photoPath: string, metadata: PhotoMetadata): void {
-    this.cache.set(this.getCacheKey(photoPath), metadata)
-    // Also store in localStorage for persistence
-    if (typeof window !== 'undefined') {
-      try {
-        const stored = JSON.parse(localStorage.getItem('metadataCache') || '{}')
-        stored[photoPath] = metadata
-        // Keep only last 1000 entries to prevent localStorage from getting too large
-        const keys = Object.keys(stored)
-        if (keys.length > 1000) {
-          const toRemove = keys.slice(0, keys.length - 1000)
-          toRemove.forEach(key => delete stored[key])
-        }
-        localStorage.setItem('metadataCache', JSON.stringify(stored))
-      } catch (e) {
-        console.warn('Failed to store metadata in localStorage:', e)
-      }
+    this.touch(this.getCacheKey(photoPath), metadata)
+    if (this.activeBatches === 0) {
+      this.scheduleFlush()
     }
   }
 
-  // Load metadata from localStorage
-  loadFromLocalStorage(): void {
-    if (typeof window === 'undefined') return
-    
+  // Write pending entries to storage in one batch
+  async flush(): Promise<void> {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    if (this.dirty.size === 0) return
+
+    const entries = Array.from(this.dirty)
+      .filter(key => this.cache.has(key))
+      .map(key => [key, this.cache.get(key)!] as [string, PhotoMetadata])
+    this.dirty.clear()
+
     try {
-      const stored = JSON.parse(localStorage.getItem('metadataCache') || '{}')
-      Object.entries(stored).forEach(([path, metadata]) => {
-        this.cache.set(path, metadata as PhotoMetadata)
-      })
-      console.log(`Loaded ${Object.keys(stored).length} metadata entries from localStorage`)
+      await this.storage.save(entries, this.maxEntries)
     } catch (e) {
-      console.warn('Failed to load metadata from localStorage:', e)
+      console.warn('Failed to persist metadata cache:', e)
     }
   }
 
-  // Extract metadata for a single photo
+  // Load persisted metadata; entries fetched since startup take precedence
+  async load(): Promise<void> {
+    try {
+      const stored = await this.storage.load()
+      const fresh = new Map(this.cache)
+      this.cache.clear()
+      for (const [key, metadata] of stored) {
+        this.cache.set(key, metadata)
+      }
+      for (const [key, metadata] of fresh) {
+        this.cache.delete(key)
+        this.cache.set(key, metadata)
+      }
+      while (this.cache.size > this.maxEntries) {
+        this.cache.delete(this.cache.keys().next().value as string)
+      }
+    } catch (e) {
+      console.warn('Failed to load metadata from storage:', e)
+    }
+  }
+
+  // Fetch metadata for a single photo by its blob key
   async extractMetadata(photoPath: string): Promise<PhotoMetadata> {
     const cacheKey = this.getCacheKey(photoPath)
     
     // Return cached if available
-    if (this.cache.has(cacheKey)) {
-      return this.cache.get(cacheKey)!
+    const cached = this.get(photoPath)
+    if (cached) {
+      return cached
     }
 
     // Return pending request if already fetching
@@ -94,51 +147,23 @@ class MetadataCache {
     // Start new request
     const promise = (async () => {
       try {
-        const fullPath = photoPath.startsWith('http') ? photoPath : `/assets/${photoPath}`
-        const response = await fetch(fullPath)
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch image: ${response.status}`)
-        }
-        
-        const arrayBuffer = await response.arrayBuffer()
-        const tags = ExifReader.load(arrayBuffer)
-        
-        // Extract relevant metadata
-        const metadata: PhotoMetadata = {}
-        
-        if (tags['DateTimeOriginal']) {
-          metadata.DateTimeOriginal = tags['DateTimeOriginal'].description
-        }
-        if (tags['Make']) {
-          metadata.Make = tags['Make'].description
-        }
-        if (tags['Model']) {
-          metadata.Model = tags['Model'].description
-        }
-        if (tags['LensModel']) {
-          metadata.LensModel = tags['LensModel'].description
-        }
-        if (tags['ISOSpeedRatings']) {
-          metadata.ISO = tags['ISOSpeedRatings'].value as unknown as number
-        }
-        if (tags['FNumber']) {
-          metadata.FNumber = tags['FNumber'].value as unknown as number
-        }
-        if (tags['ExposureTime']) {
-          metadata.ExposureTime = tags['ExposureTime'].description
+        const response = await fetch(`${METADATA_ENDPOINT}?key=${encodeURIComponent(photoPath)}`)
+
+        // A missing photo won't gain EXIF later, so cache it as empty; other failures are retried
+        if (response.status === 404) {
+          this.set(cacheKey, {})
+          return {}
         }
-        if (tags['FocalLength']) {
-          metadata.FocalLength = tags['FocalLength'].value as unknown as number
+        if (!response.ok) {
+          throw new Error(`Failed to fetch metadata: ${response.status}`)
         }
-        
+
+        const { metadata } = await response.json() as { metadata: PhotoMetadata }
         this.set(cacheKey, metadata)
         return metadata
       } catch (error) {
         console.warn(`Failed to extract metadata for ${photoPath}:`, error)
-        const metadata = {}
-        this.set(cacheKey, metadata)
-        return metadata
+        return {}
       } finally {
         this.pendingRequests.delete(cacheKey)
       }
@@ -156,34 +181,35 @@ class MetadataCache {
     const uncached = photoPaths.filter(path => !this.has(path))
     
     if (uncached.length === 0) {
-      console.log('All photos already cached')
       return
     }
 
-    console.log(`Preloading metadata for ${uncached.length} photos...`)
-    
-    // Process in chunks to avoid overwhelming the browser
-    const chunkSize = 10
-    for (let i = 0; i < uncached.length; i += chunkSize) {
-      const chunk = uncached.slice(i, i + chunkSize)
+    this.activeBatches++
+    try {
+      // Process in chunks to avoid overwhelming the browser; each chunk is persisted in one write
+      const chunkSize = 10
+      for (let i = 0; i < uncached.length; i += chunkSize) {
+        const chunk = uncached.slice(i, i + chunkSize)
       
-      await Promise.all(
-        chunk.map(path => this.extractMetadata(path).catch(() => ({})))
-      )
+        await Promise.all(
+          chunk.map(path => this.extractMetadata(path).catch(() => ({})))
+        )
+        await this.flush()
       
-      if (onProgress) {
-        onProgress({
-          loaded: i + chunk.length,
-          total: uncached.length,
-          percentage: Math.round(((i + chunk.length) / uncached.length) * 100)
-        })
-      }
+        if (onProgress) {
+          onProgress({
+            loaded: i + chunk.length,
+            total: uncached.length,
+            percentage: Math.round(((i + chunk.length) / uncached.length) * 100)
+          })
+        }
       
-      // Small delay between chunks to keep UI responsive
-      await new Promise(resolve => setTimeout(resolve, 10))
+        // Small delay between chunks to keep UI responsive
+        await new Promise(resolve => setTimeout(resolve, 10))
+      }
+    } finally {
+      this.activeBatches--
     }
-    
-    console.log('Metadata preloading complete')
   }
 
   // Queue photos for background preloading
@@ -223,16 +249,15 @@ class MetadataCache {
   }
 
   // Clear the cache
-  clear(): void {
+  async clear(): Promise<void> {
     this.cache.clear()
     this.pendingRequests.clear()
     this.preloadQueue = []
-    if (typeof window !== 'undefined') {
-      try {
-        localStorage.removeItem('metadataCache')
-      } catch (e) {
-        console.warn('Failed to clear localStorage:', e)
-      }
+    this.dirty.clear()
+    try {
+      await this.storage.clear()
+    } catch (e) {
+      console.warn('Failed to clear metadata storage:', e)
     }
   }
 
@@ -252,10 +277,12 @@ class MetadataCache {
   }
 }
 
-// Export singleton instance
-export const metadataCache = new MetadataCache()
+// Export singleton instance, persisted to IndexedDB in the browser
+export const metadataCache = new MetadataCache(createMetadataStorage())
 
-// Load from localStorage on initialization
+// Load persisted entries on initialization
 if (typeof window !== 'undefined') {
-  metadataCache.loadFromLocalStorage()
-}
\ No newline at end of file
+  metadataCache.load()
+}
+
+export { MetadataCache }
\ No newline at end of file
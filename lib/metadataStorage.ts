@@ -0,0 +1,140 @@
+// Persistence backends for MetadataCache
+import type { PhotoMetadata } from './exif'
+
+// Bump when the shape of stored metadata changes; older entries are dropped on upgrade
+export const METADATA_SCHEMA_VERSION = 2
+
+export interface MetadataStorage {
+  // Stored entries, least recently used first
+  load(): Promise<[string, PhotoMetadata][]>
+  // Write (or refresh) entries as just used, then evict the least recently used
+  // entries beyond `maxEntries`
+  save(entries: [string, PhotoMetadata][], maxEntries: number): Promise<void>
+  clear(): Promise<void>
+}
+
+interface StoredMetadata {
+  key: string
+  metadata: PhotoMetadata
+  accessedAt: number
+}
+
+const DB_NAME = 'photo-metadata'
+const OBJECT_STORE = 'metadata'
+const ACCESS_INDEX = 'accessedAt'
+
+// Schema version 1: everything in a single localStorage value
+const LEGACY_LOCAL_STORAGE_KEY = 'metadataCache'
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// One record per photo, indexed by last access so eviction never has to read everything
+export class IndexedDBMetadataStorage implements MetadataStorage {
+  private db: Promise<IDBDatabase> | null = null
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, METADATA_SCHEMA_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (db.objectStoreNames.contains(OBJECT_STORE)) {
+            db.deleteObjectStore(OBJECT_STORE)
+          }
+          const store = db.createObjectStore(OBJECT_STORE, { keyPath: 'key' })
+          store.createIndex(ACCESS_INDEX, 'accessedAt')
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+        request.onblocked = () => reject(new Error('Metadata database upgrade blocked by another tab'))
+      })
+      this.db.catch(() => {
+        this.db = null
+      })
+    }
+    return this.db
+  }
+
+  async load(): Promise<[string, PhotoMetadata][]> {
+    const db = await this.open()
+    const transaction = db.transaction(OBJECT_STORE, 'readonly')
+    const records = await requestResult(
+      transaction.objectStore(OBJECT_STORE).index(ACCESS_INDEX).getAll() as IDBRequest<StoredMetadata[]>
+    )
+    return records.map(record => [record.key, record.metadata])
+  }
+
+  async save(entries: [string, PhotoMetadata][], maxEntries: number): Promise<void> {
+    if (entries.length === 0) return
+    const db = await this.open()
+    const transaction = db.transaction(OBJECT_STORE, 'readwrite')
+    const store = transaction.objectStore(OBJECT_STORE)
+    const done = transactionDone(transaction)
+
+    const now = Date.now()
+    entries.forEach(([key, metadata], index) => {
+      // Keep the batch's own order when it's read back
+      store.put({ key, metadata, accessedAt: now + index / entries.length } satisfies StoredMetadata)
+    })
+
+    const count = await requestResult(store.count())
+    let excess = count - maxEntries
+    if (excess > 0) {
+      const cursorRequest = store.index(ACCESS_INDEX).openCursor()
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (cursor && excess > 0) {
+          cursor.delete()
+          excess--
+          cursor.continue()
+        }
+      }
+    }
+
+    await done
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(OBJECT_STORE, 'readwrite')
+    transaction.objectStore(OBJECT_STORE).clear()
+    await transactionDone(transaction)
+  }
+}
+
+// Keeps nothing between page loads; used where IndexedDB isn't available
+export class MemoryMetadataStorage implements MetadataStorage {
+  async load(): Promise<[string, PhotoMetadata][]> {
+    return []
+  }
+
+  async save(): Promise<void> {}
+
+  async clear(): Promise<void> {}
+}
+
+export function createMetadataStorage(): MetadataStorage {
+  if (typeof window === 'undefined' || typeof indexedDB === 'undefined') {
+    return new MemoryMetadataStorage()
+  }
+
+  try {
+    localStorage.removeItem(LEGACY_LOCAL_STORAGE_KEY)
+  } catch {
+    // Storage access can be denied (e.g. some private browsing modes); nothing to clean up then
+  }
+  return new IndexedDBMetadataStorage()
+}
@@ -0,0 +1,88 @@
+// Perceptual hashes (dHash) for spotting near-identical frames. A 64-bit hash compares
+// the brightness of neighbouring pixels in a 9x8 greyscale thumbnail, so small shifts,
+// re-encoding and exposure changes move only a few bits.
+import sharp from 'sharp'
+import { getLinkedMetadata } from './contentIndex'
+import { getOrCreateVariant, SIZE_PRESETS, toImageBuffer } from './imageTransform'
+import { getStorage } from './storage'
+
+export const PERCEPTUAL_HASH_STORE = 'perceptual-hashes'
+
+// Hashes worked out after upload, keyed by `{store}/{key}` and tied to the blob's etag.
+// A photo that couldn't be hashed is cached too (null hash, with when it was tried), so it
+// isn't re-rendered on every request until the blob is replaced.
+interface CachedHash {
+  perceptualHash: string | null
+  sourceEtag: string | null
+  failedAt?: string
+}
+
+// 16 hex characters; null when the image can't be decoded
+export async function perceptualHash(image: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(image)
+      .rotate()
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer()
+
+    let hash = ''
+    for (let row = 0; row < 8; row++) {
+      let nibbles = 0
+      for (let column = 0; column < 8; column++) {
+        const bit = pixels[row * 9 + column] < pixels[row * 9 + column + 1] ? 1 : 0
+        nibbles = (nibbles << 1) | bit
+      }
+      hash += nibbles.toString(16).padStart(2, '0')
+    }
+    return hash
+  } catch {
+    return null
+  }
+}
+
+// Number of differing bits between two hashes
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+// Hash for a stored photo: from its metadata when the upload recorded one, otherwise
+// computed from the thumbnail variant and cached until the blob changes. Null when the
+// photo is missing or can't be decoded.
+export async function getPerceptualHash(storeName: string, key: string): Promise<string | null> {
+  const store = getStorage(storeName)
+  const head = await getLinkedMetadata(store, key)
+  if (!head) return null
+  if (typeof head.metadata.perceptualHash === 'string') return head.metadata.perceptualHash
+
+  const hashStore = getStorage(PERCEPTUAL_HASH_STORE)
+  const cacheKey = `${storeName}/${head.key}`
+  const cached = (await hashStore.get(cacheKey, { type: 'json' })) as CachedHash | null
+  if (cached && cached.sourceEtag === (head.etag ?? null)) return cached.perceptualHash
+
+  const sourceEtag = head.etag ?? null
+  let hash: string | null = null
+  try {
+    const thumb = await getOrCreateVariant(storeName, head.key, { ...SIZE_PRESETS.thumb, format: 'webp' }, head.etag, async () => {
+      const data = await store.get(head.key, { type: 'arrayBuffer' })
+      if (!data) throw new Error(`Blob disappeared while hashing: ${head.key}`)
+      return toImageBuffer(data)
+    })
+    hash = await perceptualHash(thumb.buffer)
+  } finally {
+    const entry: CachedHash = hash
+      ? { perceptualHash: hash, sourceEtag }
+      : { perceptualHash: null, sourceEtag, failedAt: new Date().toISOString() }
+    await hashStore.putJSON(cacheKey, entry)
+  }
+  return hash
+}
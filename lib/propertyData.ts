@@ -0,0 +1,122 @@
+// Property/event catalogue. The deployed public/property-data.json is read-only,
+// so runtime edits (like top-pick lists) live in a blob copy that shadows it.
+import staticPropertyData from '@/public/property-data.json'
+import { getStorage, updateJSON } from './storage'
+
+export interface PartyData {
+  year: number
+  date: string
+  time?: string
+  attendees?: number | null
+  description: string
+  upcoming?: boolean
+  assets: {
+    top: string[]
+    all: string[]
+  }
+}
+
+export interface PropertyRecord {
+  id: string
+  name: string
+  address: string
+  events: {
+    parties: PartyData[]
+  }
+  [key: string]: any
+}
+
+export interface PropertyData {
+  properties: PropertyRecord[]
+}
+
+const SITE_DATA_STORE = 'site-data'
+const PROPERTY_DATA_KEY = 'property-data.json'
+
+function bundledPropertyData(): PropertyData {
+  return structuredClone(staticPropertyData) as PropertyData
+}
+
+export async function getPropertyData(): Promise<PropertyData> {
+  try {
+    const stored = (await getStorage(SITE_DATA_STORE).get(PROPERTY_DATA_KEY, { type: 'json' })) as PropertyData | null
+    if (stored?.properties) {
+      return stored
+    }
+  } catch (error) {
+    console.warn('Failed to read stored property data, using bundled copy:', error)
+  }
+  return bundledPropertyData()
+}
+
+// Conditional read-modify-write of the stored copy, so concurrent edits don't undo each
+// other. The first edit starts from the bundled catalogue.
+async function updatePropertyData(edit: (data: PropertyData) => void): Promise<PropertyData> {
+  return updateJSON<PropertyData>(getStorage(SITE_DATA_STORE), PROPERTY_DATA_KEY, current => {
+    const data = current?.properties ? current : bundledPropertyData()
+    edit(data)
+    return data
+  })
+}
+
+function findParty(data: PropertyData, propertyId: string, year: number): PartyData | undefined {
+  return data.properties
+    .find(property => property.id === propertyId)
+    ?.events?.parties?.find(p => p.year === year)
+}
+
+// Add and remove keys in a party's assets.top list.
+// Returns false when the property or party year isn't in the catalogue.
+export async function updatePartyTopPicks(
+  propertyId: string,
+  year: number,
+  changes: { add?: string[]; remove?: string[] }
+): Promise<boolean> {
+  if (!findParty(await getPropertyData(), propertyId, year)) {
+    return false
+  }
+
+  const add = changes.add || []
+  const remove = new Set([...(changes.remove || []), ...add])
+  await updatePropertyData(data => {
+    const party = findParty(data, propertyId, year)
+    if (party) {
+      party.assets.top = [...party.assets.top.filter(key => !remove.has(key)), ...add]
+    }
+  })
+  return true
+}
+
+// Swap renamed keys in every party's top and all lists, e.g. after the key migration.
+// Returns how many list entries changed.
+export async function renamePartyAssetKeys(renames: Map<string, string>): Promise<number> {
+  const renamesIn = (data: PropertyData) =>
+    data.properties.some(property =>
+      (property.events?.parties || []).some(party =>
+        [...party.assets.top, ...party.assets.all].some(key => renames.has(key))
+      )
+    )
+  if (!renamesIn(await getPropertyData())) {
+    return 0
+  }
+
+  let changed = 0
+  await updatePropertyData(data => {
+    // Counted per attempt, since a retry starts again from a fresh copy
+    changed = 0
+    const rename = (key: string) => {
+      const renamed = renames.get(key)
+      if (!renamed) return key
+      changed++
+      return renamed
+    }
+
+    for (const property of data.properties) {
+      for (const party of property.events?.parties || []) {
+        party.assets.top = Array.from(new Set(party.assets.top.map(rename)))
+        party.assets.all = Array.from(new Set(party.assets.all.map(rename)))
+      }
+    }
+  })
+  return changed
+}
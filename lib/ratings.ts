@@ -0,0 +1,72 @@
+// Photo ratings. Every rater's vote for a photo is kept in one JSON blob in its own store,
+// with the average and count in that blob's metadata. Photo blobs aren't rewritten on a
+// vote, so a popular photo's metadata can't outgrow the Blobs limit and its etag (and the
+// cached variants keyed on it) stays put.
+import { AssetMetadata, getAssetMetadata } from './assetMetadata'
+import { getStorage, updateJSON } from './storage'
+
+export const RATING_STORE_NAME = 'asset-ratings'
+
+export interface RatingSummary {
+  rating: number
+  ratingCount: number
+}
+
+interface RatingVotes {
+  ratings: Record<string, number>
+}
+
+export function summarizeRatings(ratings: Record<string, number>): RatingSummary {
+  const values = Object.values(ratings)
+  const total = values.reduce((sum, value) => sum + value, 0)
+  return {
+    rating: values.length > 0 ? Math.round((total / values.length) * 10) / 10 : 0,
+    ratingCount: values.length
+  }
+}
+
+// Photos rated before votes had their own store carry them in the photo's metadata
+function legacyVotes(metadata: AssetMetadata | null): Record<string, number> {
+  return metadata?.ratings && typeof metadata.ratings === 'object' ? metadata.ratings : {}
+}
+
+function summaryFrom(metadata: AssetMetadata | null): RatingSummary {
+  return { rating: Number(metadata?.rating) || 0, ratingCount: Number(metadata?.ratingCount) || 0 }
+}
+
+// Average and count for a photo, without reading the votes. Pass the photo's metadata
+// when it's at hand; it's the fallback for photos with no votes in the ratings store.
+export async function getRatingSummary(key: string, assetMetadata?: AssetMetadata | null): Promise<RatingSummary> {
+  const head = await getStorage(RATING_STORE_NAME).getMetadata(key)
+  if (head) return summaryFrom(head.metadata)
+  return summaryFrom(assetMetadata === undefined ? await getAssetMetadata(key) : assetMetadata)
+}
+
+// Record one rater's vote and return the new summary, or null when the photo doesn't exist
+export async function recordRating(key: string, raterId: string, rating: number): Promise<RatingSummary | null> {
+  const metadata = await getAssetMetadata(key)
+  if (!metadata) return null
+
+  const votes = await updateJSON<RatingVotes>(
+    getStorage(RATING_STORE_NAME),
+    key,
+    current => ({ ratings: { ...(current?.ratings ?? legacyVotes(metadata)), [raterId]: rating } }),
+    { metadata: next => ({ ...summarizeRatings(next.ratings) }) }
+  )
+  return summarizeRatings(votes.ratings)
+}
+
+// Carry a photo's votes over to its new key, e.g. when it's migrated
+export async function moveRatings(from: string, to: string, keepOriginal: boolean): Promise<void> {
+  const store = getStorage(RATING_STORE_NAME)
+  const votes = (await store.get(from, { type: 'json' })) as RatingVotes | null
+  if (!votes) return
+
+  await updateJSON<RatingVotes>(
+    store,
+    to,
+    current => ({ ratings: { ...votes.ratings, ...current?.ratings } }),
+    { metadata: next => ({ ...summarizeRatings(next.ratings) }) }
+  )
+  if (!keepOriginal) await store.delete(from)
+}
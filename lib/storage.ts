@@ -0,0 +1,396 @@
+// Storage layer for every blob the app reads or writes. Routes and lib code ask for a
+// BlobStorage by name instead of calling getStore, so the backing stores are configuration:
+// photos live in the "assets" storage, which routes each key to whichever of the
+// ASSET_STORES holds it, and BLOB_STORAGE_DIR swaps Netlify Blobs for a local folder.
+import { getStore } from '@netlify/blobs'
+import type { Store } from '@netlify/blobs'
+import { retryWithBackoff } from './concurrency'
+import { FileSystemBlobStorage } from './fileStorage'
+
+export { InvalidBlobKeyError } from './fileStorage'
+
+export type BlobMetadata = Record<string, unknown>
+export type BlobData = string | ArrayBuffer | Blob
+
+export interface StoredBlob {
+  key: string
+  etag?: string
+}
+
+export interface BlobHead {
+  etag?: string
+  // Byte length, when the backend reports it with the metadata
+  size?: number
+  metadata: BlobMetadata
+}
+
+export interface BlobWithMetadata extends BlobHead {
+  data: ArrayBuffer
+}
+
+export interface PutOptions {
+  metadata?: BlobMetadata
+  // Conditional writes, for read-modify-write updates: only replace the blob if it still
+  // has this etag, or only create it if it doesn't exist yet
+  onlyIfMatch?: string
+  onlyIfNew?: boolean
+}
+
+export interface BlobStorage {
+  // Used to scope caches and indexes that are kept per storage
+  readonly name: string
+  // Every key under the prefix, in lexical order
+  list(prefix?: string): Promise<StoredBlob[]>
+  // The same listing one upstream page at a time, for callers that can stop early
+  listPages(prefix?: string): AsyncIterable<StoredBlob[]>
+  get(key: string, options: { type: 'arrayBuffer' }): Promise<ArrayBuffer | null>
+  get(key: string, options: { type: 'json' }): Promise<unknown>
+  get(key: string, options: { type: 'stream' }): Promise<ReadableStream | null>
+  getMetadata(key: string): Promise<BlobHead | null>
+  getWithMetadata(key: string): Promise<BlobWithMetadata | null>
+  // Byte length, e.g. to answer Range requests for blobs uploaded without a size in their
+  // metadata; null when the blob doesn't exist
+  getSize(key: string): Promise<number | null>
+  // False when a conditional write was refused because the blob changed
+  put(key: string, data: BlobData, options?: PutOptions): Promise<boolean>
+  putJSON(key: string, value: unknown, options?: PutOptions): Promise<boolean>
+  delete(key: string): Promise<void>
+  // Copies bytes and metadata to the new key, then deletes the old one; false when
+  // there was nothing to move
+  move(from: string, to: string): Promise<boolean>
+}
+
+// Photo storage the galleries read from: every asset store, routed as one
+export const ASSET_STORAGE_NAME = 'assets'
+
+// Stores photos were uploaded to over the years. New photos go to the first one.
+const DEFAULT_ASSET_STORES = ['images', 'property-assets']
+
+// Conditional writes that lose to another writer are retried this often, backing off from
+// the delay; a hot blob like the tag index can see a handful of writers at once
+export const CONDITIONAL_WRITE_ATTEMPTS = 8
+export const CONDITIONAL_WRITE_DELAY_MS = 50
+
+// Sizes Blobs can't report, worked out once per blob version
+const BLOB_SIZE_STORE_NAME = 'blob-sizes'
+
+interface CachedBlobSize {
+  size: number
+  etag?: string
+}
+
+// Page size of merged listings, the same as a Blobs list page
+const MERGED_PAGE_SIZE = 1000
+
+async function collectPages(pages: AsyncIterable<StoredBlob[]>): Promise<StoredBlob[]> {
+  const blobs: StoredBlob[] = []
+  for await (const page of pages) {
+    blobs.push(...page)
+  }
+  return blobs
+}
+
+// Reads a page stream one blob at a time, for merging listings
+class PageCursor {
+  private iterator: AsyncIterator<StoredBlob[]>
+  private page: StoredBlob[] = []
+  private position = 0
+  private done = false
+
+  constructor(pages: AsyncIterable<StoredBlob[]>) {
+    this.iterator = pages[Symbol.asyncIterator]()
+  }
+
+  async peek(): Promise<StoredBlob | null> {
+    while (this.position >= this.page.length && !this.done) {
+      const { value, done } = await this.iterator.next()
+      if (done) {
+        this.done = true
+      } else {
+        this.page = value
+        this.position = 0
+      }
+    }
+    return this.page[this.position] ?? null
+  }
+
+  // Only after peek() returned a blob
+  take(): StoredBlob {
+    return this.page[this.position++]
+  }
+}
+
+async function countBytes(stream: ReadableStream<Uint8Array>): Promise<number> {
+  let size = 0
+  for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+    size += chunk.byteLength
+  }
+  return size
+}
+
+// Blobs takes one condition per write
+function setOptions({ metadata, onlyIfMatch, onlyIfNew }: PutOptions) {
+  return onlyIfMatch !== undefined ? { metadata, onlyIfMatch } : { metadata, onlyIfNew }
+}
+
+async function moveBlob(storage: BlobStorage, from: string, to: string): Promise<boolean> {
+  const existing = await storage.getWithMetadata(from)
+  if (!existing) return false
+  await storage.put(to, existing.data, { metadata: existing.metadata })
+  await storage.delete(from)
+  return true
+}
+
+// One Netlify Blobs store
+export class NetlifyBlobStorage implements BlobStorage {
+  // Opened on first use, since getStore needs the request's Blobs context
+  private store: Store | null = null
+
+  constructor(readonly name: string) {}
+
+  private get blobs(): Store {
+    if (!this.store) this.store = getStore(this.name)
+    return this.store
+  }
+
+  list(prefix = ''): Promise<StoredBlob[]> {
+    return collectPages(this.listPages(prefix))
+  }
+
+  async *listPages(prefix = ''): AsyncIterable<StoredBlob[]> {
+    for await (const { blobs } of this.blobs.list({ prefix, paginate: true })) {
+      yield blobs.map(blob => ({ key: blob.key, etag: blob.etag }))
+    }
+  }
+
+  get(key: string, options: { type: 'arrayBuffer' }): Promise<ArrayBuffer | null>
+  get(key: string, options: { type: 'json' }): Promise<unknown>
+  get(key: string, options: { type: 'stream' }): Promise<ReadableStream | null>
+  get(key: string, { type }: { type: 'arrayBuffer' | 'json' | 'stream' }): Promise<unknown> {
+    switch (type) {
+      case 'arrayBuffer':
+        return this.blobs.get(key, { type: 'arrayBuffer' })
+      case 'json':
+        return this.blobs.get(key, { type: 'json' })
+      case 'stream':
+        return this.blobs.get(key, { type: 'stream' })
+    }
+  }
+
+  async getMetadata(key: string): Promise<BlobHead | null> {
+    const head = await this.blobs.getMetadata(key)
+    return head ? { etag: head.etag, metadata: head.metadata || {} } : null
+  }
+
+  async getWithMetadata(key: string): Promise<BlobWithMetadata | null> {
+    const result = await this.blobs.getWithMetadata(key, { type: 'arrayBuffer' })
+    return result ? { data: result.data, etag: result.etag, metadata: result.metadata || {} } : null
+  }
+
+  // Blobs reports no length, so uploads record it in their metadata; for blobs without one
+  // the body is counted once and the result kept against the blob's etag
+  async getSize(key: string): Promise<number | null> {
+    const head = await this.getMetadata(key)
+    if (!head) return null
+    if (typeof head.metadata.size === 'number') return head.metadata.size
+
+    const sizes = new NetlifyBlobStorage(BLOB_SIZE_STORE_NAME)
+    const cacheKey = `${this.name}/${key}`
+    const cached = (await sizes.get(cacheKey, { type: 'json' })) as CachedBlobSize | null
+    if (cached && cached.etag === head.etag) return cached.size
+
+    const stream = await this.blobs.get(key, { type: 'stream' })
+    if (!stream) return null
+    const size = await countBytes(stream as ReadableStream<Uint8Array>)
+    await sizes.putJSON(cacheKey, { size, etag: head.etag } satisfies CachedBlobSize)
+    return size
+  }
+
+  async put(key: string, data: BlobData, options: PutOptions = {}): Promise<boolean> {
+    const { modified } = await this.blobs.set(key, data, setOptions(options))
+    return modified
+  }
+
+  async putJSON(key: string, value: unknown, options: PutOptions = {}): Promise<boolean> {
+    const { modified } = await this.blobs.setJSON(key, value, setOptions(options))
+    return modified
+  }
+
+  delete(key: string): Promise<void> {
+    return this.blobs.delete(key)
+  }
+
+  move(from: string, to: string): Promise<boolean> {
+    return moveBlob(this, from, to)
+  }
+}
+
+// Several storages seen as one. A key is read from the first storage that has it and
+// written back to the same one; new keys go to the first storage. Listings merge all of
+// them, with the first storage winning when a key exists twice.
+export class RoutedBlobStorage implements BlobStorage {
+  constructor(readonly name: string, private routes: BlobStorage[]) {
+    if (routes.length === 0) throw new Error(`Storage ${name} has no stores to route to`)
+  }
+
+  // Storage holding the key, if any
+  async route(key: string): Promise<BlobStorage | null> {
+    for (const storage of this.routes) {
+      if (await storage.getMetadata(key)) return storage
+    }
+    return null
+  }
+
+  list(prefix = ''): Promise<StoredBlob[]> {
+    return collectPages(this.listPages(prefix))
+  }
+
+  // Merges the stores' page streams in key order, so a caller that stops early only
+  // fetches the pages it got to
+  async *listPages(prefix = ''): AsyncIterable<StoredBlob[]> {
+    if (this.routes.length === 1) {
+      yield* this.routes[0].listPages(prefix)
+      return
+    }
+
+    const cursors = this.routes.map(storage => new PageCursor(storage.listPages(prefix)))
+    let page: StoredBlob[] = []
+    while (true) {
+      let next: StoredBlob | null = null
+      for (const cursor of cursors) {
+        const head = await cursor.peek()
+        if (head && (!next || head.key < next.key)) next = head
+      }
+      if (!next) break
+
+      // Take the key from the first storage holding it and skip it in the others
+      const key = next.key
+      let taken = false
+      for (const cursor of cursors) {
+        if ((await cursor.peek())?.key !== key) continue
+        const blob = cursor.take()
+        if (!taken) page.push(blob)
+        taken = true
+      }
+
+      if (page.length === MERGED_PAGE_SIZE) {
+        yield page
+        page = []
+      }
+    }
+    if (page.length > 0) yield page
+  }
+
+  get(key: string, options: { type: 'arrayBuffer' }): Promise<ArrayBuffer | null>
+  get(key: string, options: { type: 'json' }): Promise<unknown>
+  get(key: string, options: { type: 'stream' }): Promise<ReadableStream | null>
+  async get(key: string, options: { type: 'arrayBuffer' | 'json' | 'stream' }): Promise<unknown> {
+    for (const storage of this.routes) {
+      // Overloads don't resolve through a union, so narrow to one of them
+      const data = await storage.get(key, options as { type: 'arrayBuffer' })
+      if (data !== null) return data
+    }
+    return null
+  }
+
+  async getMetadata(key: string): Promise<BlobHead | null> {
+    for (const storage of this.routes) {
+      const head = await storage.getMetadata(key)
+      if (head) return head
+    }
+    return null
+  }
+
+  async getWithMetadata(key: string): Promise<BlobWithMetadata | null> {
+    for (const storage of this.routes) {
+      const result = await storage.getWithMetadata(key)
+      if (result) return result
+    }
+    return null
+  }
+
+  async getSize(key: string): Promise<number | null> {
+    for (const storage of this.routes) {
+      const size = await storage.getSize(key)
+      if (size !== null) return size
+    }
+    return null
+  }
+
+  async put(key: string, data: BlobData, options?: PutOptions): Promise<boolean> {
+    const storage = (await this.route(key)) ?? this.routes[0]
+    return storage.put(key, data, options)
+  }
+
+  async putJSON(key: string, value: unknown, options?: PutOptions): Promise<boolean> {
+    const storage = (await this.route(key)) ?? this.routes[0]
+    return storage.putJSON(key, value, options)
+  }
+
+  // From every storage, so an older copy doesn't reappear
+  async delete(key: string): Promise<void> {
+    await Promise.all(this.routes.map(storage => storage.delete(key)))
+  }
+
+  move(from: string, to: string): Promise<boolean> {
+    return moveBlob(this, from, to)
+  }
+}
+
+export interface UpdateJSONOptions<T> {
+  // Metadata to store with the new value, e.g. a summary readable without the body
+  metadata?: (value: T) => BlobMetadata
+  // Attempts before giving up when other writers keep changing the blob
+  attempts?: number
+}
+
+// Read-modify-write of a JSON blob that can't lose a concurrent update: the write only
+// goes through if the blob is unchanged since it was read, otherwise it's read again after
+// a short backoff and the update reapplied. `update` gets null when the blob doesn't exist yet.
+export async function updateJSON<T>(
+  storage: BlobStorage,
+  key: string,
+  update: (current: T | null) => T,
+  { metadata, attempts = CONDITIONAL_WRITE_ATTEMPTS }: UpdateJSONOptions<T> = {}
+): Promise<T> {
+  return retryWithBackoff(async () => {
+    const head = await storage.getMetadata(key)
+    const current = head ? ((await storage.get(key, { type: 'json' })) as T | null) : null
+    const next = update(current)
+    const condition = !head ? { onlyIfNew: true } : head.etag ? { onlyIfMatch: head.etag } : {}
+    if (!(await storage.putJSON(key, next, { metadata: metadata?.(next), ...condition }))) {
+      throw new Error(`Blob ${key} in ${storage.name} changed while it was being updated`)
+    }
+    return next
+  }, { retries: attempts - 1, baseDelayMs: CONDITIONAL_WRITE_DELAY_MS })
+}
+
+// Stores behind the assets storage, from ASSET_STORES (comma-separated, first one takes
+// new uploads)
+export function assetStoreNames(): string[] {
+  const configured = (process.env.ASSET_STORES || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+  return configured.length > 0 ? configured : DEFAULT_ASSET_STORES
+}
+
+// Folder that replaces Netlify Blobs when set, e.g. BLOB_STORAGE_DIR=.blobs for offline
+// development; each store becomes a subfolder
+export function localStorageDir(): string | null {
+  return process.env.BLOB_STORAGE_DIR || null
+}
+
+export function getStorage(name: string): BlobStorage {
+  if (name === ASSET_STORAGE_NAME) {
+    return new RoutedBlobStorage(ASSET_STORAGE_NAME, assetStoreNames().map(store => getStorage(store)))
+  }
+  const localDir = localStorageDir()
+  return localDir ? new FileSystemBlobStorage(name, localDir) : new NetlifyBlobStorage(name)
+}
+
+// Names a request may pick photos from with ?store=: the routed assets storage or one
+// of the stores behind it
+export function isAssetStorageName(name: string): boolean {
+  return name === ASSET_STORAGE_NAME || assetStoreNames().includes(name)
+}
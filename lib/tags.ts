@@ -0,0 +1,108 @@
+// Tag storage: each asset's tags live in the asset-metadata store under tags:{key},
+// with an inverted tag → asset keys index kept alongside for one-read lookups
+import { getStorage, updateJSON } from './storage'
+
+export const TAG_STORE_NAME = 'asset-metadata'
+
+// Deliberately outside the tags: prefix so listing asset tags never picks it up
+const TAG_INDEX_KEY = 'tag-index'
+
+export interface TagIndex {
+  updatedAt: string
+  tags: Record<string, string[]>
+}
+
+export function tagKey(assetKey: string): string {
+  return `tags:${assetKey}`
+}
+
+// Trim, collapse inner whitespace and case-fold so "Dance Floor " and "dance floor" are one tag
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)))
+}
+
+export async function getAssetTags(assetKey: string): Promise<string[]> {
+  const tags = await getStorage(TAG_STORE_NAME).get(tagKey(assetKey), { type: 'json' })
+  return Array.isArray(tags) ? tags : []
+}
+
+// Apply a change to an asset's tags, keep the index in step and return the updated list.
+// Both writes are conditional and retried, so concurrent edits don't undo each other.
+export async function updateAssetTags(
+  assetKey: string,
+  update: (tags: string[]) => string[]
+): Promise<{ tags: string[]; previous: string[] }> {
+  let previous: string[] = []
+  // A cleared list is written as [] rather than deleted, to keep the write conditional
+  const tags = await updateJSON<string[]>(getStorage(TAG_STORE_NAME), tagKey(assetKey), current => {
+    previous = normalizeTags(Array.isArray(current) ? current : [])
+    return normalizeTags(update(previous))
+  })
+
+  const added = tags.filter(tag => !previous.includes(tag))
+  const removed = previous.filter(tag => !tags.includes(tag))
+  if (added.length > 0 || removed.length > 0) {
+    // Seeds the index from the per-asset entries if it has never been written
+    await getTagIndex()
+    await updateJSON<TagIndex>(getStorage(TAG_STORE_NAME), TAG_INDEX_KEY, current => {
+      const index: TagIndex = { updatedAt: new Date().toISOString(), tags: { ...current?.tags } }
+      for (const tag of added) {
+        index.tags[tag] = Array.from(new Set([...(index.tags[tag] || []), assetKey]))
+      }
+      for (const tag of removed) {
+        const keys = (index.tags[tag] || []).filter(key => key !== assetKey)
+        if (keys.length > 0) {
+          index.tags[tag] = keys
+        } else {
+          delete index.tags[tag]
+        }
+      }
+      return index
+    })
+  }
+
+  return { tags, previous }
+}
+
+// Read the tag index, rebuilding it from the per-asset entries if it has never been written
+export async function getTagIndex(): Promise<TagIndex> {
+  const index = (await getStorage(TAG_STORE_NAME).get(TAG_INDEX_KEY, { type: 'json' })) as TagIndex | null
+  if (index?.tags) {
+    return index
+  }
+  return rebuildTagIndex()
+}
+
+async function saveTagIndex(index: TagIndex): Promise<void> {
+  index.updatedAt = new Date().toISOString()
+  await getStorage(TAG_STORE_NAME).putJSON(TAG_INDEX_KEY, index)
+}
+
+// Full scan of every tags: entry. Only needed to seed the index or repair drift.
+export async function rebuildTagIndex(): Promise<TagIndex> {
+  const store = getStorage(TAG_STORE_NAME)
+  const blobs = await store.list('tags:')
+  const index: TagIndex = { updatedAt: '', tags: {} }
+
+  for (const blob of blobs) {
+    const assetKey = blob.key.slice('tags:'.length)
+    const tags = await store.get(blob.key, { type: 'json' })
+    for (const tag of normalizeTags(Array.isArray(tags) ? tags : [])) {
+      index.tags[tag] = [...(index.tags[tag] || []), assetKey]
+    }
+  }
+
+  await saveTagIndex(index)
+  return index
+}
+
+export function tagCounts(index: TagIndex): { name: string; count: number }[] {
+  return Object.entries(index.tags).map(([name, keys]) => ({
+    name,
+    count: keys.length
+  }))
+}
@@ -0,0 +1,152 @@
+// Node upload client: writes a folder of photos straight to a blob store with bounded
+// concurrency, retries, and a resume log so an interrupted run picks up where it stopped
+import { promises as fs } from 'fs'
+import path from 'path'
+import { mapWithConcurrency, retryWithBackoff } from './concurrency'
+import { contentHash } from './contentIndex'
+import type { BlobStorage } from './storage'
+import { UploadPhotoOptions, uploadPhoto } from './uploadPipeline'
+
+export const UPLOAD_EXTENSIONS = ['.jpg', '.jpeg']
+
+export interface UploadOptions {
+  store: BlobStorage
+  sourceDir: string
+  // Key prefix, e.g. "parties/2022/the-archive/"
+  prefix: string
+  concurrency: number
+  retries: number
+  // JSON-lines log of finished uploads; null disables resuming
+  resumeFile: string | null
+  // Content-index check for files the store already has under another key
+  dedupe?: UploadPhotoOptions['dedupe']
+  onEvent?: (event: UploadEvent) => void
+}
+
+export interface UploadEvent {
+  type: 'uploaded' | 'skipped' | 'duplicate' | 'failed' | 'retrying'
+  filename: string
+  key: string
+  duplicateOf?: string
+  completed: number
+  total: number
+  error?: string
+}
+
+export interface UploadSummary {
+  total: number
+  uploaded: number
+  skipped: number
+  // Files whose bytes were already stored under another key, skipped or linked
+  duplicates: { filename: string; key: string; duplicateOf: string; action: 'skipped' | 'linked' }[]
+  failed: { filename: string; key: string; error: string }[]
+}
+
+interface ResumeRecord {
+  key: string
+  contentHash: string
+}
+
+// Finished uploads, one JSON object per line so a crash mid-run loses at most one line
+class ResumeLog {
+  private constructor(private file: string | null, private done: Map<string, string>) {}
+
+  static async open(file: string | null): Promise<ResumeLog> {
+    const done = new Map<string, string>()
+    if (file) {
+      const text = await fs.readFile(file, 'utf8').catch(() => '')
+      for (const line of text.split('\n')) {
+        try {
+          const record = JSON.parse(line) as ResumeRecord
+          done.set(record.key, record.contentHash)
+        } catch {
+          // Blank or partially written line
+        }
+      }
+    }
+    return new ResumeLog(file, done)
+  }
+
+  // Already uploaded with the same content; an edited file is uploaded again
+  has(key: string, hash: string): boolean {
+    return this.done.get(key) === hash
+  }
+
+  async record(key: string, hash: string): Promise<void> {
+    this.done.set(key, hash)
+    if (this.file) {
+      await fs.appendFile(this.file, JSON.stringify({ key, contentHash: hash } satisfies ResumeRecord) + '\n')
+    }
+  }
+}
+
+export function normalizePrefix(prefix: string): string {
+  const trimmed = prefix.replace(/^\/+/, '')
+  return trimmed && !trimmed.endsWith('/') ? `${trimmed}/` : trimmed
+}
+
+// Blob keys keep the file's base name without its extension, as the galleries expect
+export function uploadKey(prefix: string, filename: string): string {
+  return `${normalizePrefix(prefix)}${path.basename(filename, path.extname(filename))}`
+}
+
+export async function listUploadFiles(sourceDir: string): Promise<string[]> {
+  const entries = await fs.readdir(sourceDir, { withFileTypes: true })
+  return entries
+    .filter(entry => entry.isFile() && UPLOAD_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+    .map(entry => entry.name)
+    .sort()
+}
+
+export async function uploadDirectory(options: UploadOptions): Promise<UploadSummary> {
+  const { store, sourceDir, prefix, concurrency, retries, dedupe, onEvent } = options
+  const files = await listUploadFiles(sourceDir)
+  const resume = await ResumeLog.open(options.resumeFile)
+  const summary: UploadSummary = { total: files.length, uploaded: 0, skipped: 0, duplicates: [], failed: [] }
+  let completed = 0
+
+  const emit = (event: Omit<UploadEvent, 'completed' | 'total'>) =>
+    onEvent?.({ ...event, completed, total: files.length })
+
+  await mapWithConcurrency(files, concurrency, async filename => {
+    const key = uploadKey(prefix, filename)
+    try {
+      const data = await fs.readFile(path.join(sourceDir, filename))
+      const hash = contentHash(data)
+
+      if (resume.has(key, hash)) {
+        summary.skipped++
+        completed++
+        emit({ type: 'skipped', filename, key })
+        return
+      }
+
+      const result = await retryWithBackoff(() => uploadPhoto(store, key, data, filename, { dedupe }), {
+        retries,
+        onRetry: (error, attempt, delayMs) =>
+          emit({
+            type: 'retrying',
+            filename,
+            key,
+            error: `attempt ${attempt}/${retries} in ${delayMs}ms: ${error instanceof Error ? error.message : error}`
+          })
+      })
+      await resume.record(key, hash)
+      completed++
+      if (result.action !== 'stored' && result.duplicateOf) {
+        summary.duplicates.push({ filename, key, duplicateOf: result.duplicateOf, action: result.action })
+        emit({ type: 'duplicate', filename, key, duplicateOf: result.duplicateOf })
+      } else {
+        summary.uploaded++
+        emit({ type: 'uploaded', filename, key })
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      summary.failed.push({ filename, key, error: message })
+      completed++
+      emit({ type: 'failed', filename, key, error: message })
+    }
+  })
+
+  return summary
+}
@@ -0,0 +1,160 @@
+// Prepares photos for upload: EXIF, dimensions and content hashes are worked out once,
+// up front, and stored as blob metadata alongside the binary in a single write
+import sharp from 'sharp'
+import { contentHash, DuplicatePolicy, findByContentHash, recordContentHash } from './contentIndex'
+import { exifDateToIso, extractPhotoMetadata } from './exif'
+import { getContentType } from './imageTransform'
+import { perceptualHash } from './perceptualHash'
+import type { BlobStorage } from './storage'
+
+export interface UploadMetadata {
+  originalFilename: string
+  contentType: string
+  size: number
+  // SHA-256 of the file bytes, hex encoded
+  contentHash: string
+  // dHash for near-duplicate detection, null when the image can't be decoded
+  perceptualHash: string | null
+  width: number | null
+  height: number | null
+  captureTime: string | null
+  cameraMake?: string
+  cameraModel?: string
+  lensModel?: string
+  iso?: number
+  fNumber?: number
+  exposureTime?: string
+  focalLength?: number
+  uploadedAt: string
+}
+
+// Displayed dimensions: EXIF orientations 5-8 rotate the image a quarter turn
+async function measure(data: Buffer): Promise<{ width: number | null; height: number | null }> {
+  try {
+    const { width, height, orientation } = await sharp(data).metadata()
+    if (!width || !height) return { width: null, height: null }
+    return orientation && orientation >= 5 ? { width: height, height: width } : { width, height }
+  } catch {
+    return { width: null, height: null }
+  }
+}
+
+export async function buildUploadMetadata(data: Buffer, filename: string): Promise<UploadMetadata> {
+  const exif = extractPhotoMetadata(data)
+  const { width, height } = await measure(data)
+
+  const metadata: UploadMetadata = {
+    originalFilename: filename,
+    contentType: getContentType(filename, data),
+    size: data.length,
+    contentHash: contentHash(data),
+    perceptualHash: await perceptualHash(data),
+    width,
+    height,
+    captureTime: exifDateToIso(exif.DateTimeOriginal, exif.OffsetTimeOriginal),
+    uploadedAt: new Date().toISOString()
+  }
+
+  // Camera fields only when the camera recorded them
+  const camera: Partial<UploadMetadata> = {
+    cameraMake: exif.Make,
+    cameraModel: exif.Model,
+    lensModel: exif.LensModel,
+    iso: exif.ISO,
+    fNumber: exif.FNumber,
+    exposureTime: exif.ExposureTime,
+    focalLength: exif.FocalLength
+  }
+  for (const [field, value] of Object.entries(camera)) {
+    if (value !== undefined) {
+      Object.assign(metadata, { [field]: value })
+    }
+  }
+
+  return metadata
+}
+
+// Values reported by the uploading client, used only where the file itself has no answer
+export interface ClientMetadata {
+  captureTime?: string | null
+  width?: number | null
+  height?: number | null
+}
+
+export interface UploadPhotoOptions {
+  fallback?: ClientMetadata
+  // Check the content index before writing; without it every upload is stored
+  dedupe?: {
+    index: BlobStorage
+    policy: DuplicatePolicy
+  }
+  // Leave an existing blob at the key alone instead of replacing it
+  onlyIfNew?: boolean
+}
+
+export interface UploadResult {
+  // Where the photo can be read from: the existing key when a duplicate was skipped
+  key: string
+  metadata: UploadMetadata
+  action: 'stored' | 'skipped' | 'linked'
+  duplicateOf: string | null
+}
+
+// Store a photo as binary with its metadata in the same call. With onlyIfNew nothing is
+// overwritten: null means another upload took the key first.
+export async function uploadPhoto(
+  store: BlobStorage,
+  key: string,
+  data: Buffer,
+  filename: string,
+  options: UploadPhotoOptions & { onlyIfNew: true }
+): Promise<UploadResult | null>
+export async function uploadPhoto(
+  store: BlobStorage,
+  key: string,
+  data: Buffer,
+  filename: string,
+  options?: UploadPhotoOptions
+): Promise<UploadResult>
+export async function uploadPhoto(
+  store: BlobStorage,
+  key: string,
+  data: Buffer,
+  filename: string,
+  { fallback = {}, dedupe, onlyIfNew = false }: UploadPhotoOptions = {}
+): Promise<UploadResult | null> {
+  const metadata = await buildUploadMetadata(data, filename)
+  metadata.captureTime = metadata.captureTime ?? fallback.captureTime ?? null
+  if (metadata.width === null || metadata.height === null) {
+    metadata.width = fallback.width ?? null
+    metadata.height = fallback.height ?? null
+  }
+
+  const existing = dedupe
+    ? await findByContentHash(dedupe.index, store, metadata.contentHash)
+    : null
+
+  if (existing && existing !== key && dedupe?.policy === 'skip') {
+    return { key: existing, metadata, action: 'skipped', duplicateOf: existing }
+  }
+
+  if (existing && existing !== key && dedupe?.policy === 'link') {
+    // The link keeps its own metadata (ratings, tags) but no bytes
+    if (!(await store.put(key, new ArrayBuffer(0), { metadata: { ...metadata, linkedTo: existing }, onlyIfNew }))) {
+      return null
+    }
+    return { key, metadata, action: 'linked', duplicateOf: existing }
+  }
+
+  const body = data.buffer.slice(data.byteOffset, data.byteOffset + data.length) as ArrayBuffer
+  if (!(await store.put(key, body, { metadata: { ...metadata }, onlyIfNew }))) {
+    return null
+  }
+
+  // The first copy stays the indexed one, so later duplicates point at it
+  if (dedupe && !existing) {
+    await recordContentHash(dedupe.index, store, metadata.contentHash, key)
+  }
+
+  return { key, metadata, action: 'stored', duplicateOf: existing && existing !== key ? existing : null }
+}
@@ -0,0 +1,216 @@
+// Chunked browser uploads into an event. A session is opened per file, chunks are staged
+// in the `uploads` store (each request stays well under the function body limit), and
+// completing the session assembles the file and stores it with its metadata.
+// Files already in the store (by content hash) are skipped or linked per the session's policy.
+import { randomUUID } from 'crypto'
+import { buildEventKey } from './assets'
+import { DuplicatePolicy, findByContentHash, getContentIndexStore, resolveLinkedKey } from './contentIndex'
+import { getOrCreateVariant, OutputFormat, SIZE_PRESETS } from './imageTransform'
+import { ASSET_STORAGE_NAME, getStorage } from './storage'
+import { ClientMetadata, uploadPhoto, UploadResult } from './uploadPipeline'
+
+// Storage the event galleries read from
+export const UPLOAD_TARGET_STORE = ASSET_STORAGE_NAME
+
+const UPLOAD_SESSION_STORE = 'uploads'
+
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024
+export const MAX_UPLOAD_SIZE = 100 * 1024 * 1024
+export const UPLOAD_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp']
+
+// Thumbnails rendered up front, in the formats browsers negotiate for <img> requests
+const PRERENDERED_SIZES = ['thumb']
+const PRERENDERED_FORMATS: OutputFormat[] = ['avif', 'webp']
+
+export interface UploadSession {
+  id: string
+  propertyId: string
+  year: string
+  filename: string
+  size: number
+  chunkCount: number
+  client: ClientMetadata
+  onDuplicate: DuplicatePolicy
+  createdAt: string
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+  }
+}
+
+function sessionKey(id: string): string {
+  return `sessions/${id}`
+}
+
+function chunkPrefix(id: string): string {
+  return `chunks/${id}/`
+}
+
+function chunkKey(id: string, index: number): string {
+  return `${chunkPrefix(id)}${String(index).padStart(5, '0')}`
+}
+
+function getSessionStore() {
+  return getStorage(UPLOAD_SESSION_STORE)
+}
+
+function extensionOf(filename: string): string {
+  const dot = filename.lastIndexOf('.')
+  return dot === -1 ? '' : filename.slice(dot).toLowerCase()
+}
+
+// Keys drop the extension, like the upload scripts' keys
+function baseName(filename: string): string {
+  const name = filename.split(/[\\/]/).pop() || filename
+  const dot = name.lastIndexOf('.')
+  return (dot > 0 ? name.slice(0, dot) : name).replace(/[^\w.-]+/g, '_')
+}
+
+export async function createUploadSession(input: {
+  propertyId: string
+  year: string
+  filename: string
+  size: number
+  client?: ClientMetadata
+  onDuplicate?: DuplicatePolicy
+}): Promise<UploadSession> {
+  const { propertyId, year, filename, size } = input
+
+  if (!/^\d{4}$/.test(year) || !/^[\w-]+$/.test(propertyId)) {
+    throw new UploadError('Invalid property or year')
+  }
+  if (!UPLOAD_EXTENSIONS.includes(extensionOf(filename))) {
+    throw new UploadError(`Unsupported file type: ${filename}`)
+  }
+  if (!Number.isInteger(size) || size <= 0 || size > MAX_UPLOAD_SIZE) {
+    throw new UploadError(`File must be between 1 byte and ${MAX_UPLOAD_SIZE / (1024 * 1024)} MB`)
+  }
+
+  const session: UploadSession = {
+    id: randomUUID(),
+    propertyId,
+    year,
+    filename,
+    size,
+    chunkCount: Math.ceil(size / UPLOAD_CHUNK_SIZE),
+    client: {
+      captureTime: typeof input.client?.captureTime === 'string' ? input.client.captureTime : null,
+      width: typeof input.client?.width === 'number' ? input.client.width : null,
+      height: typeof input.client?.height === 'number' ? input.client.height : null
+    },
+    onDuplicate: input.onDuplicate || 'skip',
+    createdAt: new Date().toISOString()
+  }
+  await getSessionStore().putJSON(sessionKey(session.id), session)
+  return session
+}
+
+// Lets a client skip sending a file the store already has. The hash comes from the client,
+// so it is only trusted to skip; links are made from the server's own hash at completion.
+export async function findExistingUpload(hash: string): Promise<string | null> {
+  if (!/^[0-9a-f]{64}$/.test(hash)) throw new UploadError('Invalid content hash')
+  return findByContentHash(getContentIndexStore(), getStorage(UPLOAD_TARGET_STORE), hash)
+}
+
+async function getUploadSession(id: string): Promise<UploadSession> {
+  const session = (await getSessionStore().get(sessionKey(id), { type: 'json' })) as UploadSession | null
+  if (!session) throw new UploadError('Upload session not found', 404)
+  return session
+}
+
+// Every chunk is exactly UPLOAD_CHUNK_SIZE except the last. Re-sending a chunk overwrites it,
+// so a client can retry a failed chunk without starting over.
+export async function saveUploadChunk(id: string, index: number, data: ArrayBuffer): Promise<void> {
+  const session = await getUploadSession(id)
+
+  if (!Number.isInteger(index) || index < 0 || index >= session.chunkCount) {
+    throw new UploadError(`Chunk index out of range: ${index}`)
+  }
+  const expected = index === session.chunkCount - 1
+    ? session.size - UPLOAD_CHUNK_SIZE * (session.chunkCount - 1)
+    : UPLOAD_CHUNK_SIZE
+  if (data.byteLength !== expected) {
+    throw new UploadError(`Chunk ${index} should be ${expected} bytes, got ${data.byteLength}`)
+  }
+
+  await getSessionStore().put(chunkKey(id, index), data)
+}
+
+async function deleteUploadSession(session: UploadSession): Promise<void> {
+  const store = getSessionStore()
+  await Promise.all(
+    Array.from({ length: session.chunkCount }, (_, index) => store.delete(chunkKey(session.id, index)))
+  )
+  await store.delete(sessionKey(session.id))
+}
+
+// First free key for the file in its event: IMG_1, then IMG_1-2, IMG_1-3, ...
+async function availableKey(session: UploadSession): Promise<string> {
+  const store = getStorage(UPLOAD_TARGET_STORE)
+  const base = buildEventKey(session.propertyId, session.year, baseName(session.filename))
+  let key = base
+  for (let suffix = 2; await store.getMetadata(key); suffix++) {
+    key = `${base}-${suffix}`
+  }
+  return key
+}
+
+// Assemble the chunks and store the photo. Returns where it ended up and whether it was a duplicate.
+export async function completeUpload(id: string): Promise<UploadResult> {
+  const session = await getUploadSession(id)
+  const store = getSessionStore()
+
+  const data = Buffer.alloc(session.size)
+  let offset = 0
+  for (let index = 0; index < session.chunkCount; index++) {
+    const chunk = await store.get(chunkKey(id, index), { type: 'arrayBuffer' })
+    if (!chunk) throw new UploadError(`Chunk ${index} has not been uploaded`, 409)
+    data.set(new Uint8Array(chunk), offset)
+    offset += chunk.byteLength
+  }
+  if (offset !== session.size) {
+    throw new UploadError(`Received ${offset} bytes, expected ${session.size}`, 409)
+  }
+
+  // Another upload of the same name can take the free key between the check and the write;
+  // the write is conditional, so that upload keeps it and this one moves to the next suffix
+  while (true) {
+    const key = await availableKey(session)
+    const result = await uploadPhoto(getStorage(UPLOAD_TARGET_STORE), key, data, session.filename, {
+      fallback: session.client,
+      dedupe: { index: getContentIndexStore(), policy: session.onDuplicate },
+      onlyIfNew: true
+    })
+    if (result) {
+      await deleteUploadSession(session)
+      return result
+    }
+  }
+}
+
+// Render the gallery's thumbnails now so the first visitor doesn't wait for them
+export async function prerenderThumbnails(uploadedKey: string): Promise<void> {
+  const store = getStorage(UPLOAD_TARGET_STORE)
+  // A link shares the thumbnails of the photo it points at
+  const key = await resolveLinkedKey(store, uploadedKey)
+  const head = await store.getMetadata(key)
+  if (!head) return
+
+  let original: Buffer | null = null
+  const loadOriginal = async () => {
+    if (!original) {
+      const data = await store.get(key, { type: 'arrayBuffer' })
+      if (!data) throw new Error(`Uploaded blob missing: ${key}`)
+      original = Buffer.from(data)
+    }
+    return original
+  }
+
+  for (const size of PRERENDERED_SIZES) {
+    for (const format of PRERENDERED_FORMATS) {
+      await getOrCreateVariant(UPLOAD_TARGET_STORE, key, { ...SIZE_PRESETS[size], format }, head.etag, loadOriginal)
+    }
+  }
+}
@@ -0,0 +1,71 @@
+// Property videos live under videos/{propertyId}/ with poster frames in a posters/ subfolder
+import { mapWithConcurrency } from './concurrency'
+import { getStorage } from './storage'
+
+export const VIDEO_STORE_NAME = 'videos'
+
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'mov', 'webm']
+
+export interface VideoAsset {
+  id: string
+  key: string
+  filename: string
+  path: string
+  thumbnailUrl?: string
+  size?: number
+  duration?: number
+  metadata: {
+    width?: number
+    height?: number
+    format?: string
+  }
+}
+
+export function videoPrefix(propertyId: string): string {
+  return `videos/${propertyId}/`
+}
+
+// Conventional poster location: videos/{propertyId}/posters/{basename}.jpg
+export function posterKey(videoKey: string): string {
+  const slash = videoKey.lastIndexOf('/')
+  const basename = videoKey.slice(slash + 1).replace(/\.[^.]+$/, '')
+  return `${videoKey.slice(0, slash)}/posters/${basename}.jpg`
+}
+
+function serveUrl(key: string, extra = ''): string {
+  return `/api/asset-handler/serve?store=${VIDEO_STORE_NAME}&key=${encodeURIComponent(key)}${extra}`
+}
+
+export async function listPropertyVideos(propertyId: string): Promise<VideoAsset[]> {
+  const store = getStorage(VIDEO_STORE_NAME)
+  const blobs = await store.list(videoPrefix(propertyId))
+
+  const keys = new Set(blobs.map(blob => blob.key))
+  const videoKeys = blobs
+    .map(blob => blob.key)
+    .filter(key => !key.includes('/posters/'))
+    .filter(key => VIDEO_EXTENSIONS.includes(key.split('.').pop()?.toLowerCase() || ''))
+    .sort()
+
+  return mapWithConcurrency(videoKeys, 5, async key => {
+    const result = await store.getMetadata(key)
+    const metadata = (result?.metadata || {}) as Record<string, any>
+    const filename = key.split('/').pop() || key
+    const poster = typeof metadata.posterKey === 'string' ? metadata.posterKey : posterKey(key)
+
+    return {
+      id: key,
+      key,
+      filename,
+      path: serveUrl(key),
+      thumbnailUrl: keys.has(poster) ? serveUrl(poster, '&size=medium') : undefined,
+      size: typeof metadata.size === 'number' ? metadata.size : undefined,
+      duration: typeof metadata.duration === 'number' ? metadata.duration : undefined,
+      metadata: {
+        width: metadata.width,
+        height: metadata.height,
+        format: metadata.format || filename.split('.').pop()?.toLowerCase()
+      }
+    }
+  })
+}
@@ -0,0 +1,274 @@
+// Streaming ZIP writer. Entries are stored uncompressed (photos are already compressed)
+// and read one at a time, so memory use stays flat no matter how big the archive gets.
+// Archives past 4 GB get ZIP64 offsets; each individual entry must stay under 4 GB.
+
+// Writer progress. Plain JSON, so a long export can be persisted and resumed later
+export interface ZipState {
+  offset: number
+  records: ZipRecord[]
+}
+
+export interface ZipEntry {
+  name: string
+  date?: Date
+  // Called just before the entry is written; return null to skip it
+  load: () => Promise<ReadableStream<Uint8Array> | Uint8Array | null>
+}
+
+// Per-entry record kept until the central directory is written
+export interface ZipRecord {
+  name: string
+  crc: number
+  size: number
+  offset: number
+  dosTime: number
+  dosDate: number
+}
+
+const UINT32_MAX = 0xffffffff
+const encoder = new TextEncoder()
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(crc: number, chunk: Uint8Array): number {
+  let c = crc ^ UINT32_MAX
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC_TABLE[(c ^ chunk[i]) & 0xff] ^ (c >>> 8)
+  }
+  return (c ^ UINT32_MAX) >>> 0
+}
+
+// DataView.setBigUint64 needs ES2020; offsets stay well inside Number's exact range
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 0x100000000, true)
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true)
+}
+
+function toDos(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+function localHeader(name: Uint8Array, dosTime: number, dosDate: number): Uint8Array {
+  const header = new Uint8Array(30 + name.length)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, 0x04034b50, true)
+  view.setUint16(4, 45, true) // version needed (ZIP64-aware)
+  view.setUint16(6, 0x0808, true) // data descriptor follows + UTF-8 names
+  view.setUint16(8, 0, true) // stored
+  view.setUint16(10, dosTime, true)
+  view.setUint16(12, dosDate, true)
+  // CRC and sizes are zero here and written in the data descriptor
+  view.setUint16(26, name.length, true)
+  header.set(name, 30)
+  return header
+}
+
+function dataDescriptor(crc: number, size: number): Uint8Array {
+  const descriptor = new Uint8Array(16)
+  const view = new DataView(descriptor.buffer)
+  view.setUint32(0, 0x08074b50, true)
+  view.setUint32(4, crc, true)
+  view.setUint32(8, size, true)
+  view.setUint32(12, size, true)
+  return descriptor
+}
+
+function centralHeader(record: ZipRecord): Uint8Array {
+  const name = encoder.encode(record.name)
+  const needsZip64 = record.offset >= UINT32_MAX
+  const extra = needsZip64 ? 12 : 0
+  const header = new Uint8Array(46 + name.length + extra)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, 0x02014b50, true)
+  view.setUint16(4, 45, true) // version made by
+  view.setUint16(6, 45, true) // version needed
+  view.setUint16(8, 0x0808, true)
+  view.setUint16(10, 0, true)
+  view.setUint16(12, record.dosTime, true)
+  view.setUint16(14, record.dosDate, true)
+  view.setUint32(16, record.crc, true)
+  view.setUint32(20, record.size, true)
+  view.setUint32(24, record.size, true)
+  view.setUint16(28, name.length, true)
+  view.setUint16(30, extra, true)
+  view.setUint32(42, needsZip64 ? UINT32_MAX : record.offset, true)
+  header.set(name, 46)
+  if (needsZip64) {
+    const extraOffset = 46 + name.length
+    view.setUint16(extraOffset, 0x0001, true)
+    view.setUint16(extraOffset + 2, 8, true)
+    setUint64(view, extraOffset + 4, record.offset)
+  }
+  return header
+}
+
+function endOfCentralDirectory(count: number, cdOffset: number, cdSize: number): Uint8Array[] {
+  const parts: Uint8Array[] = []
+  const needsZip64 = cdOffset + cdSize >= UINT32_MAX || count >= 0xffff
+
+  if (needsZip64) {
+    const zip64End = new Uint8Array(56)
+    const endView = new DataView(zip64End.buffer)
+    endView.setUint32(0, 0x06064b50, true)
+    setUint64(endView, 4, 44)
+    endView.setUint16(12, 45, true)
+    endView.setUint16(14, 45, true)
+    setUint64(endView, 24, count)
+    setUint64(endView, 32, count)
+    setUint64(endView, 40, cdSize)
+    setUint64(endView, 48, cdOffset)
+
+    const locator = new Uint8Array(20)
+    const locatorView = new DataView(locator.buffer)
+    locatorView.setUint32(0, 0x07064b50, true)
+    setUint64(locatorView, 8, cdOffset + cdSize)
+    locatorView.setUint32(16, 1, true)
+
+    parts.push(zip64End, locator)
+  }
+
+  const end = new Uint8Array(22)
+  const view = new DataView(end.buffer)
+  view.setUint32(0, 0x06054b50, true)
+  view.setUint16(8, needsZip64 ? 0xffff : count, true)
+  view.setUint16(10, needsZip64 ? 0xffff : count, true)
+  view.setUint32(12, needsZip64 ? UINT32_MAX : cdSize, true)
+  view.setUint32(16, needsZip64 ? UINT32_MAX : cdOffset, true)
+  parts.push(end)
+  return parts
+}
+
+async function* readChunks(data: ReadableStream<Uint8Array> | Uint8Array): AsyncGenerator<Uint8Array> {
+  if (data instanceof Uint8Array) {
+    yield data
+    return
+  }
+  const reader = data.getReader()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) return
+      yield value
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export function newZipState(): ZipState {
+  return { offset: 0, records: [] }
+}
+
+// Write one entry, advancing `state`. Returns false (writing nothing) when the entry was skipped.
+export async function* writeZipEntry(state: ZipState, entry: ZipEntry): AsyncGenerator<Uint8Array, boolean> {
+  const data = await entry.load()
+  if (data === null) return false
+
+  const name = encoder.encode(entry.name)
+  const { dosTime, dosDate } = toDos(entry.date || new Date())
+  const header = localHeader(name, dosTime, dosDate)
+  const entryOffset = state.offset
+  yield header
+  state.offset += header.length
+
+  let crc = 0
+  let size = 0
+  for await (const chunk of readChunks(data)) {
+    crc = crc32(crc, chunk)
+    size += chunk.length
+    yield chunk
+  }
+  if (size >= UINT32_MAX) {
+    throw new Error(`Entry too large for ZIP export: ${entry.name}`)
+  }
+  state.offset += size
+
+  const descriptor = dataDescriptor(crc, size)
+  yield descriptor
+  state.offset += descriptor.length
+
+  state.records.push({ name: entry.name, crc, size, offset: entryOffset, dosTime, dosDate })
+  return true
+}
+
+// Central directory and end records that close the archive
+export function* finishZip(state: ZipState): Generator<Uint8Array> {
+  const cdOffset = state.offset
+  let cdSize = 0
+  for (const record of state.records) {
+    const header = centralHeader(record)
+    cdSize += header.length
+    yield header
+  }
+
+  yield* endOfCentralDirectory(state.records.length, cdOffset, cdSize)
+}
+
+// Produce the archive bytes; `entries` may be generated lazily (e.g. a CSV appended last)
+export async function* zipChunks(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>,
+  onEntry?: (name: string, written: boolean) => void
+): AsyncGenerator<Uint8Array> {
+  const state = newZipState()
+
+  for await (const entry of entries) {
+    const written = yield* writeZipEntry(state, entry)
+    onEntry?.(entry.name, written)
+  }
+
+  yield* finishZip(state)
+}
+
+export function createZipStream(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>,
+  onEntry?: (name: string, written: boolean) => void
+): ReadableStream<Uint8Array> {
+  const iterator = zipChunks(entries, onEntry)
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined)
+    }
+  })
+}
+
+// Unique in-archive file names: "a.jpg", "a (2).jpg", ...
+export function uniqueNamer(): (name: string) => string {
+  const used = new Set<string>()
+  return (name: string) => {
+    let candidate = name
+    let counter = 2
+    while (used.has(candidate.toLowerCase())) {
+      const dot = name.lastIndexOf('.')
+      candidate = dot > 0 ? `${name.slice(0, dot)} (${counter})${name.slice(dot)}` : `${name} (${counter})`
+      counter++
+    }
+    used.add(candidate.toLowerCase())
+    return candidate
+  }
+}
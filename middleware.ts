@@ -1,12 +1,22 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { isAuthenticated } from './lib/auth'
 
-export function middleware(request: NextRequest) {
+// Pages that need a signed-in session; the matching APIs check the session themselves
+const PROTECTED_PAGES = /^\/event\/[^/]+\/[^/]+\/upload\/?$/
+
+export async function middleware(request: NextRequest) {
   // Handle API routes
   if (request.nextUrl.pathname.startsWith('/api/')) {
     return NextResponse.next()
   }
-  
+
+  if (PROTECTED_PAGES.test(request.nextUrl.pathname) && !(await isAuthenticated(request))) {
+    const login = new URL('/login', request.url)
+    login.searchParams.set('next', request.nextUrl.pathname)
+    return NextResponse.redirect(login)
+  }
+
   // Let Next.js handle all other routes
   return NextResponse.next()
 }
@@ -16,4 +26,4 @@ export const config = {
     // exclude Next internals, static, Netlify Images, and the serve endpoint
     '/((?!_next/|static/|\\.netlify/images|api/asset-handler/serve|favicon.ico|robots.txt|sitemap\\.xml).*)',
   ],
-}
\ No newline at end of file
+}
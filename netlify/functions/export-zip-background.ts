@@ -0,0 +1,22 @@
+// Assembles a background export job's archive (see lib/exportJobs.ts). Background
+// functions get 15 minutes; a run stops short of that and re-invokes itself to continue.
+import { runExportJob, triggerExportJob } from '../../lib/exportJobs'
+
+const TIME_BUDGET_MS = 12 * 60 * 1000
+
+const exportZipBackground = async (request: Request) => {
+  const { jobId } = await request.json()
+
+  if (typeof jobId !== 'string') {
+    console.error('Export function called without a jobId')
+    return
+  }
+
+  const result = await runExportJob(jobId, Date.now() + TIME_BUDGET_MS)
+
+  if (result === 'continue') {
+    await triggerExportJob(new URL(request.url).origin, jobId)
+  }
+}
+
+export default exportZipBackground
@@ -0,0 +1,39 @@
+// Blobs credentials for scripts run outside Netlify
+
+import fs from 'fs';
+import path from 'path';
+import { setEnvironmentContext } from '@netlify/blobs';
+import { localStorageDir } from '../lib/storage';
+
+// Site ID from the environment, falling back to the one `netlify link` saved
+export function resolveSiteId(): string | undefined {
+  if (process.env.NETLIFY_SITE_ID) return process.env.NETLIFY_SITE_ID;
+  try {
+    const state = JSON.parse(fs.readFileSync(path.join(process.cwd(), '.netlify', 'state.json'), 'utf8'));
+    return state.siteId;
+  } catch {
+    return undefined;
+  }
+}
+
+// Credentials, or exits with a hint when they're missing
+export function requireBlobsCredentials(): { siteID: string; token: string } {
+  const siteID = resolveSiteId();
+  const token = process.env.NETLIFY_AUTH_TOKEN;
+  if (!siteID || !token) {
+    console.error('Set NETLIFY_AUTH_TOKEN and NETLIFY_SITE_ID (or run `netlify link`) first');
+    process.exit(1);
+  }
+  return { siteID, token };
+}
+
+// Lets lib code that calls getStorage(name) reach the site's stores, as it does when deployed.
+// With BLOB_STORAGE_DIR set the scripts work on that folder and need no credentials.
+export function connectBlobs(): void {
+  const localDir = localStorageDir();
+  if (localDir) {
+    console.log(`📁 Using local blob storage in ${localDir}`);
+    return;
+  }
+  setEnvironmentContext(requireBlobsCredentials());
+}
@@ -0,0 +1,227 @@
+#!/usr/bin/env tsx
+
+// End-to-end checks of the API routes on the filesystem storage adapter: serve, list,
+// events, tags and ratings against a throwaway BLOB_STORAGE_DIR, so they run offline
+// without Netlify credentials. The route handlers are called directly.
+//
+// Run with: npm test
+
+import assert from 'assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import sharp from 'sharp';
+
+const PROPERTY_ID = 'the-archive';
+const YEAR = '2025';
+const PHOTO_KEY = `parties/${YEAR}/${PROPERTY_ID}/20250614193000_UNPICKED.jpg`;
+const VIDEO_KEY = `${PROPERTY_ID}/tour.mp4`;
+const VIDEO_SIZE = 4096;
+// What Chrome sends when navigating to an image or following a download link
+const NAVIGATION_ACCEPT = 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'blob-check-'));
+process.env.BLOB_STORAGE_DIR = root;
+process.env.ASSET_STORES = 'images,property-assets';
+
+function request(url: string, init?: { method?: string; headers?: Record<string, string>; body?: unknown }): NextRequest {
+  return new NextRequest(new URL(url, 'http://localhost'), {
+    method: init?.method ?? 'GET',
+    headers: { ...(init?.body ? { 'content-type': 'application/json' } : {}), ...init?.headers },
+    body: init?.body ? JSON.stringify(init.body) : undefined
+  });
+}
+
+function eventParams() {
+  return { params: Promise.resolve({ propertyId: PROPERTY_ID, year: YEAR }) };
+}
+
+const checks: { name: string; run: () => Promise<void> }[] = [];
+
+function check(name: string, run: () => Promise<void>) {
+  checks.push({ name, run });
+}
+
+async function main() {
+  // Imported after BLOB_STORAGE_DIR is set, like a server started with it
+  const { getStorage } = await import('../lib/storage');
+  const serve = await import('../app/api/asset-handler/serve/route');
+  const list = await import('../app/api/asset-handler/list/route');
+  const photoImage = await import('../app/api/photos/image/route');
+  const events = await import('../app/api/events/[propertyId]/[year]/route');
+  const addTag = await import('../app/api/tag-handler/add/route');
+  const tagAssets = await import('../app/api/tag-handler/assets/route');
+  const rating = await import('../app/api/update-rating/route');
+  const { VIDEO_STORE_NAME } = await import('../lib/videos');
+  const { DEFAULT_FLAT_PROPERTY_ID, migrateKeys } = await import('../lib/keyMigration');
+
+  const photo = await sharp({ create: { width: 64, height: 48, channels: 3, background: '#c04020' } }).jpeg().toBuffer();
+  const video = Buffer.alloc(VIDEO_SIZE, 7);
+
+  check('put writes the metadata sidecar next to the file', async () => {
+    const data = photo.buffer.slice(photo.byteOffset, photo.byteOffset + photo.length) as ArrayBuffer;
+    await getStorage('images').put(PHOTO_KEY, data, {
+      metadata: { contentType: 'image/jpeg', width: 64, height: 48, captureTime: '2025-06-14T19:30:00.000Z' }
+    });
+    const sidecar = JSON.parse(fs.readFileSync(path.join(root, 'images', `${PHOTO_KEY}.meta.json`), 'utf8'));
+    assert.equal(sidecar.width, 64);
+  });
+
+  check('serve returns the original, then 304 for its etag', async () => {
+    const response = await serve.GET(request(`/api/asset-handler/serve?key=${encodeURIComponent(PHOTO_KEY)}`));
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type'), 'image/jpeg');
+    assert.deepEqual(Buffer.from(await response.arrayBuffer()), photo);
+
+    const etag = response.headers.get('etag')!;
+    const revalidated = await serve.GET(
+      request(`/api/asset-handler/serve?key=${encodeURIComponent(PHOTO_KEY)}`, { headers: { 'if-none-match': etag } })
+    );
+    assert.equal(revalidated.status, 304);
+  });
+
+  check('originals are served as stored to browsers that accept AVIF', async () => {
+    const query = `key=${encodeURIComponent(PHOTO_KEY)}`;
+    for (const handler of [serve.GET, photoImage.GET]) {
+      const original = await handler(request(`/api/image?${query}`, { headers: { accept: NAVIGATION_ACCEPT } }));
+      assert.equal(original.status, 200);
+      assert.equal(original.headers.get('content-type'), 'image/jpeg');
+      assert.deepEqual(Buffer.from(await original.arrayBuffer()), photo);
+
+      const resized = await handler(request(`/api/image?${query}&w=32`, { headers: { accept: NAVIGATION_ACCEPT } }));
+      assert.equal(resized.headers.get('content-type'), 'image/avif');
+    }
+  });
+
+  check('serve answers Range for a video dropped in without metadata', async () => {
+    const file = path.join(root, VIDEO_STORE_NAME, VIDEO_KEY);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, video);
+
+    const url = `/api/asset-handler/serve?store=${VIDEO_STORE_NAME}&key=${encodeURIComponent(VIDEO_KEY)}`;
+    const response = await serve.GET(request(url, { headers: { range: 'bytes=100-199', accept: 'image/avif,image/webp,*/*' } }));
+    assert.equal(response.status, 206);
+    assert.equal(response.headers.get('content-type'), 'video/mp4');
+    assert.equal(response.headers.get('content-range'), `bytes 100-199/${VIDEO_SIZE}`);
+    assert.equal((await response.arrayBuffer()).byteLength, 100);
+
+    const past = await serve.GET(request(url, { headers: { range: `bytes=${VIDEO_SIZE}-` } }));
+    assert.equal(past.status, 416);
+
+    // An end before the start is invalid rather than unsatisfiable, so it's ignored
+    const backwards = await serve.GET(request(url, { headers: { range: 'bytes=50-10' } }));
+    assert.equal(backwards.status, 200);
+    assert.equal((await backwards.arrayBuffer()).byteLength, VIDEO_SIZE);
+  });
+
+  check('serve and list reject keys outside the store', async () => {
+    fs.writeFileSync(path.join(root, 'secret.txt'), 'not a blob');
+    for (const key of ['../secret.txt', 'parties/../../secret.txt', `${PHOTO_KEY}.meta.json`]) {
+      const response = await serve.GET(request(`/api/asset-handler/serve?store=images&key=${encodeURIComponent(key)}`));
+      assert.equal(response.status, 400, key);
+    }
+    const listed = await list.GET(request(`/api/asset-handler/list?prefix=${encodeURIComponent('../')}`));
+    assert.equal(listed.status, 400);
+  });
+
+  check('list pages through the merged asset stores', async () => {
+    await getStorage('property-assets').put(`parties/${YEAR}/${PROPERTY_ID}/20250614193500_PICKED.jpg`, 'legacy', {
+      metadata: { contentType: 'image/jpeg' }
+    });
+    const response = await list.GET(request(`/api/asset-handler/list?prefix=parties/&limit=1`));
+    const first = await response.json();
+    assert.deepEqual(first.assets.map((asset: { key: string }) => asset.key), [PHOTO_KEY]);
+    assert.equal(first.pagination.hasMore, true);
+
+    const next = await list.GET(request(`/api/asset-handler/list?prefix=parties/&limit=1&cursor=${first.pagination.nextCursor}`));
+    const second = await next.json();
+    assert.equal(second.assets.length, 1);
+    assert.notEqual(second.assets[0].key, PHOTO_KEY);
+    assert.equal(second.pagination.hasMore, false);
+  });
+
+  check('events list the photos with their metadata', async () => {
+    const response = await events.GET(request(`/api/events/${PROPERTY_ID}/${YEAR}`), eventParams());
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    const entry = body.assets.find((asset: { key: string }) => asset.key === PHOTO_KEY);
+    assert.ok(entry, 'photo missing from the event');
+    assert.equal(entry.metadata.width, 64);
+  });
+
+  check('tags are indexed and show up in the event', async () => {
+    const response = await addTag.POST(request('/api/tag-handler/add', { method: 'POST', body: { key: PHOTO_KEY, tag: 'Dance Floor ' } }));
+    assert.deepEqual((await response.json()).tags, ['dance floor']);
+
+    const tagged = await tagAssets.GET(request('/api/tag-handler/assets?tag=dance%20floor'));
+    assert.deepEqual((await tagged.json()).assets, [PHOTO_KEY]);
+
+    const event = await (await events.GET(request(`/api/events/${PROPERTY_ID}/${YEAR}`), eventParams())).json();
+    assert.deepEqual(event.assets.find((asset: { key: string }) => asset.key === PHOTO_KEY).metadata.tags, ['dance floor']);
+  });
+
+  check('ratings average across raters without rewriting the photo', async () => {
+    const before = await getStorage('images').getMetadata(PHOTO_KEY);
+    const votes = [['alice', 5], ['bob', 2], ['alice', 4]] as const;
+    let body: Record<string, unknown> = {};
+    for (const [userId, value] of votes) {
+      const response = await rating.POST(
+        request('/api/update-rating', { method: 'POST', body: { assetId: PHOTO_KEY, rating: value, userId } })
+      );
+      assert.equal(response.status, 200);
+      body = await response.json();
+    }
+    assert.equal(body.rating, 3);
+    assert.equal(body.ratingCount, 2);
+
+    const after = await getStorage('images').getMetadata(PHOTO_KEY);
+    assert.equal(after?.etag, before?.etag);
+
+    const event = await (await events.GET(request(`/api/events/${PROPERTY_ID}/${YEAR}`), eventParams())).json();
+    assert.equal(event.assets.find((asset: { key: string }) => asset.key === PHOTO_KEY).metadata.rating, 3);
+
+    const missing = await rating.POST(
+      request('/api/update-rating', { method: 'POST', body: { assetId: 'parties/2025/nowhere/x.jpg', rating: 3 } })
+    );
+    assert.equal(missing.status, 404);
+  });
+
+  check('duplicate links follow an original moved by the key migration', async () => {
+    const original = 'parties/2024/x/IMG_20240301200000.jpg';
+    const link = 'parties/2024/y/IMG_9';
+    const data = photo.buffer.slice(photo.byteOffset, photo.byteOffset + photo.length) as ArrayBuffer;
+    await getStorage('images').put(original, data, { metadata: { contentType: 'image/jpeg' } });
+    await getStorage('images').put(link, new ArrayBuffer(0), { metadata: { linkedTo: original } });
+
+    const result = await migrateKeys({ storeName: 'images', prefix: 'parties/2024/x/', flatPropertyId: DEFAULT_FLAT_PROPERTY_ID });
+    assert.equal(result.counts.copy, 1);
+    assert.equal(await getStorage('images').getMetadata(original), null);
+
+    const response = await serve.GET(request(`/api/asset-handler/serve?store=images&key=${encodeURIComponent(link)}`));
+    assert.equal(response.status, 200);
+    assert.deepEqual(Buffer.from(await response.arrayBuffer()), photo);
+  });
+
+  let failed = 0;
+  for (const { name, run } of checks) {
+    try {
+      await run();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.error(error);
+    }
+  }
+
+  console.log(`\n${checks.length - failed}/${checks.length} checks passed`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => fs.rmSync(root, { recursive: true, force: true }));
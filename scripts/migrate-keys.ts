@@ -0,0 +1,83 @@
+#!/usr/bin/env tsx
+
+// Move photos to the canonical parties/{year}/{property}/{timestamp}_{status} keys.
+// Blobs are moved with their metadata and a redirect is recorded for each old key, so
+// old URLs keep working. Re-running resumes: keys that already have a redirect are skipped.
+//
+// Needs NETLIFY_AUTH_TOKEN, plus NETLIFY_SITE_ID unless the folder is `netlify link`ed,
+// or BLOB_STORAGE_DIR to work on local storage instead.
+
+import { parseArgs } from 'util';
+import { DEFAULT_FLAT_PROPERTY_ID, migrateKeys } from '../lib/keyMigration';
+import { ASSET_STORAGE_NAME, assetStoreNames, isAssetStorageName } from '../lib/storage';
+import { connectBlobs } from './blobsContext';
+
+const USAGE = `Usage: npm run migrate:keys -- --store <name> [options]
+
+Options:
+  --store <name>            Store to migrate: ${[ASSET_STORAGE_NAME, ...assetStoreNames()].join(', ')}
+  --prefix <prefix>         Only migrate keys under this prefix (default: the whole store)
+  --flat-property <id>      Property for flat keys, which don't name one (default: ${DEFAULT_FLAT_PROPERTY_ID})
+  --dry-run                 Print the planned moves without writing anything
+  --keep-originals          Copy without deleting the old keys (they stay listed and
+                            redirects only apply once they are deleted)
+
+Example: npm run migrate:keys -- --store images --dry-run`;
+
+const { values } = parseArgs({
+  options: {
+    store: { type: 'string' },
+    prefix: { type: 'string', default: '' },
+    'flat-property': { type: 'string', default: DEFAULT_FLAT_PROPERTY_ID },
+    'dry-run': { type: 'boolean', default: false },
+    'keep-originals': { type: 'boolean', default: false }
+  }
+});
+
+if (!values.store || !isAssetStorageName(values.store)) {
+  console.log(USAGE);
+  process.exit(1);
+}
+
+async function main() {
+  connectBlobs();
+
+  const dryRun = values['dry-run']!;
+  console.log(`\n🔀 Migrating keys in ${values.store}${values.prefix ? ` under ${values.prefix}` : ''}`);
+  console.log(dryRun ? '🧪 Dry run: nothing will be written\n' : `🗑️  Originals: ${values['keep-originals'] ? 'kept' : 'deleted'}\n`);
+
+  const result = await migrateKeys({
+    storeName: values.store!,
+    prefix: values.prefix,
+    flatPropertyId: values['flat-property']!,
+    dryRun,
+    keepOriginals: values['keep-originals'],
+    onStep: step => {
+      if (step.action === 'copy' || step.action === 'redirect') {
+        console.log(`${step.action === 'copy' ? '📄' : '↪️ '} ${step.from} → ${step.to}`);
+      } else {
+        console.log(`${step.action === 'failed' ? '❌' : '⏭️ '} ${step.from}: ${step.reason}`);
+      }
+    }
+  });
+
+  console.log('\n' + '='.repeat(50));
+  console.log(dryRun ? '📊 Dry run complete' : '📊 Migration complete');
+  console.log('='.repeat(50));
+  console.log(`📄 ${dryRun ? 'To copy' : 'Copied'}: ${result.counts.copy}`);
+  console.log(`↪️  ${dryRun ? 'To redirect' : 'Redirected'} (top/ copies): ${result.counts.redirect}`);
+  console.log(`✅ Already migrated: ${result.alreadyMigrated}`);
+  console.log(`⏭️  Skipped: ${result.counts.skip}`);
+  console.log(`❌ Failed: ${result.counts.failed}`);
+  console.log(`🗂️  Manifests rebuilt: ${result.rebuiltManifests}`);
+
+  if (result.counts.failed > 0) {
+    console.log('\n💡 Run the same command again to retry the failed keys.');
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
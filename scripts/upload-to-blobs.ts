@@ -0,0 +1,133 @@
+#!/usr/bin/env tsx
+
+// Upload a folder of photos to a blob store, with EXIF, dimensions and a content hash
+// written as blob metadata. Uploads run in parallel, retry on failure, and are logged to
+// a resume file so re-running after an interruption skips what already made it.
+// Files the store already holds under another key are skipped (or linked) by content hash.
+//
+// Needs NETLIFY_AUTH_TOKEN, plus NETLIFY_SITE_ID unless the folder is `netlify link`ed,
+// or BLOB_STORAGE_DIR to work on local storage instead.
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { CONTENT_INDEX_STORE, DuplicatePolicy, isDuplicatePolicy } from '../lib/contentIndex';
+import { assetStoreNames, getStorage } from '../lib/storage';
+import { normalizePrefix, uploadDirectory } from '../lib/uploadClient';
+import { connectBlobs } from './blobsContext';
+
+// Where the app itself sends new photos (first of ASSET_STORES)
+const DEFAULT_STORE = assetStoreNames()[0];
+
+const USAGE = `Usage: npm run upload:photos -- <source-dir> (--prefix <key-prefix> | --year <year>) [options]
+
+Options:
+  --prefix <prefix>     Key prefix, e.g. parties/2022/the-archive/
+  --year <year>         Shorthand for --prefix parties/<year>/the-archive/
+  --store <name>        Blob store (default: ${DEFAULT_STORE})
+  --concurrency <n>     Parallel uploads (default: 4)
+  --retries <n>         Retries per file with exponential backoff (default: 3)
+  --resume <file>       Resume log (default: <source-dir>/.blob-upload-<store>.jsonl)
+  --no-resume           Upload everything, ignoring and not writing a resume log
+  --on-duplicate <mode> Files already stored under another key: skip, link or keep (default: skip)
+
+Example: npm run upload:photos -- "/path/to/photos" --year 2022 --concurrency 8`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    prefix: { type: 'string' },
+    year: { type: 'string' },
+    store: { type: 'string', default: DEFAULT_STORE },
+    concurrency: { type: 'string', default: '4' },
+    retries: { type: 'string', default: '3' },
+    resume: { type: 'string' },
+    'no-resume': { type: 'boolean', default: false },
+    'on-duplicate': { type: 'string', default: 'skip' }
+  }
+});
+
+const sourceDir = positionals[0];
+const prefix = values.prefix ?? (values.year ? `parties/${values.year}/the-archive/` : undefined);
+const concurrency = parseInt(values.concurrency!, 10);
+const retries = parseInt(values.retries!, 10);
+const onDuplicate = values['on-duplicate'];
+
+if (!sourceDir || prefix === undefined || !(concurrency > 0) || !(retries >= 0) || !isDuplicatePolicy(onDuplicate)) {
+  console.log(USAGE);
+  process.exit(1);
+}
+
+if (!fs.existsSync(sourceDir)) {
+  console.error(`Directory not found: ${sourceDir}`);
+  process.exit(1);
+}
+
+async function main() {
+  connectBlobs();
+
+  const storeName = values.store!;
+  const resumeFile = values['no-resume']
+    ? null
+    : values.resume ?? path.join(sourceDir, `.blob-upload-${storeName}.jsonl`);
+
+  console.log(`\n📤 Uploading photos from ${sourceDir}`);
+  console.log(`🗄️  Store: ${storeName}`);
+  console.log(`🎯 Uploading to: ${normalizePrefix(prefix!)}`);
+  console.log(`⚡ Concurrency: ${concurrency}, retries: ${retries}`);
+  console.log(`📝 Resume log: ${resumeFile ?? 'disabled'}`);
+  console.log(`🧬 Duplicates: ${onDuplicate}\n`);
+
+  const startTime = Date.now();
+  const summary = await uploadDirectory({
+    store: getStorage(storeName),
+    sourceDir,
+    prefix: prefix!,
+    concurrency,
+    retries,
+    resumeFile,
+    dedupe: {
+      index: getStorage(CONTENT_INDEX_STORE),
+      policy: onDuplicate as DuplicatePolicy
+    },
+    onEvent: event => {
+      const position = `${event.completed}/${event.total}`;
+      if (event.type === 'failed') {
+        console.log(`❌ ${position}: ${event.filename} - ${event.error}`);
+      } else if (event.type === 'retrying') {
+        console.log(`🔁 ${event.filename} - retrying ${event.error}`);
+      } else if (event.type === 'duplicate') {
+        console.log(`🧬 ${position}: ${event.filename} - same as ${event.duplicateOf}`);
+      } else if (event.completed % 10 === 0 || event.completed === event.total) {
+        const elapsed = Math.round((Date.now() - startTime) / 1000);
+        const rate = elapsed > 0 ? Math.round(event.completed / elapsed) : 0;
+        console.log(`✅ Progress: ${position} - ${event.filename} (${rate} files/sec)`);
+      }
+    }
+  });
+
+  const totalTime = Math.round((Date.now() - startTime) / 1000);
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Upload Complete!');
+  console.log('='.repeat(50));
+  console.log(`✅ Successfully uploaded: ${summary.uploaded} files`);
+  console.log(`⏭️  Skipped (already uploaded): ${summary.skipped} files`);
+  console.log(`🧬 Duplicates ${onDuplicate === 'link' ? 'linked' : 'skipped'}: ${summary.duplicates.length} files`);
+  console.log(`❌ Failed uploads: ${summary.failed.length} files`);
+  console.log(`⏱️  Total time: ${totalTime} seconds (${totalTime > 0 ? Math.round(summary.uploaded / totalTime) : 0} files/sec)`);
+
+  if (summary.failed.length > 0) {
+    console.log('\n❌ Errors:');
+    summary.failed.slice(0, 10).forEach(e => console.log(`  - ${e.filename}: ${e.error}`));
+    if (summary.failed.length > 10) {
+      console.log(`  ... and ${summary.failed.length - 10} more errors`);
+    }
+    console.log('\n💡 Run the same command again to retry just the failed files.');
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});